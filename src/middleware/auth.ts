@@ -25,3 +25,42 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
         return res.status(403).json({ error: 'Invalid or expired token' });
     }
 };
+
+// Stream tokens go in URLs, so they last a minute and are signed apart from staff logins
+const STREAM_TOKEN_SECONDS = 60;
+
+function streamSecret(): string {
+    return `${process.env.JWT_SECRET}:stream`;
+}
+
+/**
+ * Short-lived token for endpoints opened with EventSource, which can't send an Authorization header
+ */
+export const createStreamToken = (user: NonNullable<AuthRequest['user']>): { token: string; expiresIn: number } => {
+    const token = jwt.sign(
+        { id: user.id, email: user.email, restaurantId: user.restaurantId, purpose: 'stream' },
+        streamSecret(),
+        { expiresIn: STREAM_TOKEN_SECONDS }
+    );
+    return { token, expiresIn: STREAM_TOKEN_SECONDS };
+};
+
+/**
+ * Authenticate with a stream token in the ?token= query string
+ */
+export const authenticateStreamToken = (req: AuthRequest, res: Response, next: NextFunction) => {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+    if (!token) {
+        return res.status(401).json({ error: 'Stream token required' });
+    }
+
+    try {
+        const decoded = jwt.verify(token, streamSecret()) as any;
+        if (decoded?.purpose !== 'stream') throw new Error('Not a stream token');
+        req.user = { id: decoded.id, email: decoded.email, restaurantId: decoded.restaurantId };
+        next();
+    } catch (error) {
+        return res.status(403).json({ error: 'Invalid or expired stream token' });
+    }
+};
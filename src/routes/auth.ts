@@ -8,6 +8,8 @@ import supabase from '../config/supabase';
 import emailService from '../services/email.service';
 import vapiService from '../services/vapi.service';
 import ragService from '../services/rag.service';
+import { slugify } from '../utils/slug';
+import { isValidTimeZone, restaurantTimeZone } from '../utils/datetime';
 
 const router = Router();
 
@@ -57,7 +59,8 @@ router.post('/register', upload.fields([
             cuisineType,
             openingHours,
             specialFeatures,
-            faqText
+            faqText,
+            timezone
         } = req.body;
 
         // Validation
@@ -65,6 +68,10 @@ router.post('/register', upload.fields([
             return res.status(400).json({ error: 'Missing required fields' });
         }
 
+        if (timezone && !isValidTimeZone(timezone)) {
+            return res.status(400).json({ error: 'Invalid timezone' });
+        }
+
         // Check if email already exists
         const { data: existingUser } = await supabase
             .from('restaurants')
@@ -82,6 +89,9 @@ router.post('/register', upload.fields([
         // Generate verification token
         const verificationToken = uuidv4();
 
+        // Public booking widget URL
+        const slug = await generateUniqueSlug(restaurantName);
+
         // Process uploaded files
         const files = req.files as { [fieldname: string]: Express.Multer.File[] };
         const documents: any = {};
@@ -99,11 +109,13 @@ router.post('/register', upload.fields([
                 email,
                 password: hashedPassword,
                 name: restaurantName,
+                slug,
                 owner_name: ownerName,
                 phone,
                 address,
                 cuisine_type: cuisineType,
                 opening_hours: openingHours,
+                timezone: timezone || restaurantTimeZone(null),
                 special_features: specialFeatures,
                 faq_text: faqText,
                 menu_url: documents.menu_url,
@@ -141,6 +153,27 @@ router.post('/register', upload.fields([
     }
 });
 
+/**
+ * Build a slug from the restaurant name, adding a short suffix if it is taken
+ */
+async function generateUniqueSlug(name: string): Promise<string> {
+    const base = slugify(name);
+    let slug = base;
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const { data: existing } = await supabase
+            .from('restaurants')
+            .select('id')
+            .eq('slug', slug)
+            .maybeSingle();
+
+        if (!existing) return slug;
+        slug = `${base}-${Math.random().toString(36).substr(2, 4)}`;
+    }
+
+    return `${base}-${uuidv4().slice(0, 8)}`;
+}
+
 /**
  * Process documents in background with RAG
  */
@@ -1,10 +1,34 @@
 import { Router, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
+import multer from 'multer';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import supabase from '../config/supabase';
-import emailService from '../services/email.service';
-import hubspotService from '../services/hubspot.service';
-import calendarService from '../services/calendar.service';
+import bookingService from '../services/booking.service';
+import importService from '../services/import.service';
+import exportService, { ExportFilters } from '../services/export.service';
+import searchService, { SearchSort } from '../services/search.service';
+import seatingService, { SeatingResult } from '../services/seating.service';
+import availabilityService from '../services/availability.service';
+import auditService, { BookingActor } from '../services/audit.service';
+import cancellationPolicyService from '../services/cancellationPolicy.service';
+import { BookingStatus } from '../utils/bookingStatus';
+import { isValidDate, isValidTime, normalizeDate, normalizeTime } from '../utils/datetime';
+import { requestIdempotencyKey } from '../utils/idempotency';
+
+/** Booking fields staff may edit directly; status goes through the lifecycle endpoints */
+const EDITABLE_FIELDS = ['guest_name', 'guest_email', 'guest_phone', 'booking_date', 'booking_time', 'party_size', 'special_requests'];
+
+// Import files are parsed straight from memory
+const importUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+    fileFilter: (req, file, cb) => {
+        if (/\.csv$/i.test(file.originalname) || /csv|text\/plain|excel/.test(file.mimetype)) {
+            cb(null, true);
+        } else {
+            cb(new Error('Only CSV files are allowed'));
+        }
+    }
+});
 
 const router = Router();
 
@@ -23,7 +47,8 @@ router.post('/', async (req: AuthRequest, res: Response) => {
             date,
             time,
             partySize,
-            specialRequests
+            specialRequests,
+            area
         } = req.body;
 
         const restaurantId = req.user!.restaurantId;
@@ -33,37 +58,12 @@ router.post('/', async (req: AuthRequest, res: Response) => {
             return res.status(400).json({ error: 'Missing required fields' });
         }
 
-        // Check availability
-        const isAvailable = await checkTableAvailability(restaurantId, date, time, partySize);
-        if (!isAvailable) {
-            return res.status(409).json({ error: 'No tables available for the requested time' });
+        if (!isValidDate(date)) {
+            return res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
         }
 
-        // Generate confirmation number
-        const confirmationNumber = `TN-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
-
-        // Create booking
-        const { data: booking, error: dbError } = await supabase
-            .from('bookings')
-            .insert({
-                restaurant_id: restaurantId,
-                guest_name: guestName,
-                guest_email: guestEmail,
-                guest_phone: guestPhone,
-                booking_date: date,
-                booking_time: time,
-                party_size: partySize,
-                special_requests: specialRequests,
-                confirmation_number: confirmationNumber,
-                status: 'confirmed',
-                source: 'manual'
-            })
-            .select()
-            .single();
-
-        if (dbError) {
-            console.error('Database error:', dbError);
-            return res.status(500).json({ error: 'Failed to create booking' });
+        if (!isValidTime(normalizeTime(time))) {
+            return res.status(400).json({ error: 'Time must be HH:MM' });
         }
 
         // Get restaurant details
@@ -73,84 +73,47 @@ router.post('/', async (req: AuthRequest, res: Response) => {
             .eq('id', restaurantId)
             .single();
 
-        // Send confirmation email to guest
-        await emailService.sendBookingConfirmation({
-            to: guestEmail,
-            restaurantName: restaurant?.name || 'Restaurant',
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        const result = await bookingService.createBooking(restaurant, {
             guestName,
+            guestEmail,
+            guestPhone,
             date,
             time,
             partySize,
-            confirmationNumber
-        });
-
-        // Send notification to restaurant
-        await emailService.sendRestaurantNotification({
-            to: restaurant?.email || '',
-            subject: 'New Booking Received',
-            message: `New booking for ${partySize} guests on ${date} at ${time}`,
-            bookingDetails: booking
+            specialRequests,
+            area
+        }, {
+            source: 'manual',
+            actor: { type: 'staff', id: req.user!.id },
+            idempotencyKey: requestIdempotencyKey(req)
         });
 
-        // Create HubSpot contact and deal
-        try {
-            await hubspotService.upsertContact({
-                email: guestEmail,
-                firstName: guestName.split(' ')[0],
-                lastName: guestName.split(' ').slice(1).join(' '),
-                phone: guestPhone,
-                restaurantName: restaurant?.name
-            });
-
-            const deal = await hubspotService.createDeal({
-                dealName: `${restaurant?.name} - ${guestName} - ${date}`,
-                contactEmail: guestEmail,
-                restaurantId,
-                reservationDate: `${date} ${time}`,
-                partySize
-            });
-
-            // Update booking with HubSpot deal ID
-            await supabase
-                .from('bookings')
-                .update({ hubspot_deal_id: deal.id })
-                .eq('id', booking.id);
-        } catch (hubspotError) {
-            console.error('HubSpot error:', hubspotError);
-            // Don't fail the booking if HubSpot fails
-        }
-
-        // Create calendar event if restaurant has calendar connected
-        if (restaurant?.google_calendar_tokens) {
-            try {
-                const startDateTime = new Date(`${date}T${time}`);
-                const endDateTime = new Date(startDateTime.getTime() + 2 * 60 * 60 * 1000); // 2 hours
-
-                const calendarEvent = await calendarService.createEvent(
-                    JSON.parse(restaurant.google_calendar_tokens),
-                    {
-                        summary: `Booking: ${guestName} (${partySize} guests)`,
-                        description: `Confirmation: ${confirmationNumber}\nPhone: ${guestPhone}\nEmail: ${guestEmail}\nSpecial Requests: ${specialRequests || 'None'}`,
-                        start: startDateTime,
-                        end: endDateTime,
-                        attendees: [guestEmail]
-                    }
-                );
-
-                // Update booking with calendar event ID
-                await supabase
-                    .from('bookings')
-                    .update({ calendar_event_id: calendarEvent.id })
-                    .eq('id', booking.id);
-            } catch (calendarError) {
-                console.error('Calendar error:', calendarError);
+        if (!result.success) {
+            const availability = result.availability;
+            if (availability && !availability.available) {
+                return res.status(409).json({
+                    error: 'No tables available for the requested time',
+                    reason: availability.reason,
+                    message: availability.message,
+                    suggestions: availability.suggestions
+                });
             }
+            return res.status(500).json({ error: 'Failed to create booking' });
+        }
+
+        if (result.duplicate) {
+            res.set('Idempotent-Replayed', 'true');
         }
 
         res.status(201).json({
             message: 'Booking created successfully',
-            booking,
-            confirmationNumber
+            booking: result.booking,
+            confirmationNumber: result.booking.confirmation_number,
+            payment: result.payment
         });
     } catch (error: any) {
         console.error('Create booking error:', error);
@@ -201,6 +164,247 @@ router.get('/', async (req: AuthRequest, res: Response) => {
     }
 });
 
+/**
+ * Seat a party that walked in without a booking
+ */
+router.post('/walk-ins', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { partySize, guestName, guestPhone, tableIds, area, specialRequests } = req.body;
+
+        if (!Number.isInteger(partySize) || partySize < 1) {
+            return res.status(400).json({ error: 'Party size is required' });
+        }
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
+
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        const result = await seatingService.createWalkIn(restaurant, {
+            partySize,
+            guestName,
+            guestPhone,
+            tableIds,
+            area,
+            specialRequests
+        }, { type: 'staff', id: req.user!.id });
+
+        if (!result.success) {
+            return res.status(409).json({ error: result.error, conflicts: result.conflicts });
+        }
+
+        res.status(201).json({ message: 'Walk-in seated successfully', booking: result.booking });
+    } catch (error: any) {
+        console.error('Create walk-in error:', error);
+        res.status(500).json({ error: 'Failed to seat walk-in' });
+    }
+});
+
+/**
+ * Search bookings by guest name, email, phone or confirmation number.
+ * Filters: from, to, minPartySize, maxPartySize, source and status (comma-separated).
+ * Sort: relevance (default with a query), time or time_desc
+ */
+router.get('/search', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { q, from, to, minPartySize, maxPartySize, source, status, sort, limit, offset } = req.query;
+        const list = (value: any) => (value ? String(value).split(',').map(v => v.trim()).filter(Boolean) : undefined);
+
+        if (sort && !['relevance', 'time', 'time_desc'].includes(sort as string)) {
+            return res.status(400).json({ error: 'Sort must be relevance, time or time_desc' });
+        }
+
+        const dateFrom = from ? normalizeDate(from as string) : undefined;
+        const dateTo = to ? normalizeDate(to as string) : undefined;
+        for (const date of [dateFrom, dateTo]) {
+            if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+                return res.status(400).json({ error: `Invalid date: ${date}` });
+            }
+        }
+
+        const result = await searchService.searchBookings(restaurantId, {
+            q: q as string | undefined,
+            from: dateFrom,
+            to: dateTo,
+            minPartySize: minPartySize ? Number(minPartySize) : undefined,
+            maxPartySize: maxPartySize ? Number(maxPartySize) : undefined,
+            sources: list(source),
+            statuses: list(status),
+            sort: sort as SearchSort | undefined,
+            limit: limit ? Number(limit) : undefined,
+            offset: offset ? Number(offset) : undefined
+        });
+
+        res.json(result);
+    } catch (error: any) {
+        console.error('Search bookings error:', error);
+        res.status(500).json({ error: 'Failed to search bookings' });
+    }
+});
+
+/**
+ * Export bookings as CSV or NDJSON, streamed page by page.
+ * Filters: from, to (YYYY-MM-DD), status and source (comma-separated)
+ */
+router.get('/export', async (req: AuthRequest, res: Response) => {
+    const restaurantId = req.user!.restaurantId;
+    const { format = 'csv', from, to, status, source } = req.query;
+    const list = (value: any) => (value ? String(value).split(',').map(v => v.trim()).filter(Boolean) : undefined);
+
+    if (format !== 'csv' && format !== 'ndjson') {
+        return res.status(400).json({ error: 'Format must be csv or ndjson' });
+    }
+
+    const filters: ExportFilters = {
+        from: from ? normalizeDate(from as string) : undefined,
+        to: to ? normalizeDate(to as string) : undefined,
+        statuses: list(status),
+        sources: list(source)
+    };
+
+    for (const date of [filters.from, filters.to]) {
+        if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            return res.status(400).json({ error: `Invalid date: ${date}` });
+        }
+    }
+
+    // The response closes early when the client disconnects mid-export
+    let aborted = false;
+    res.on('close', () => {
+        aborted = true;
+    });
+
+    try {
+        const filename = `bookings-${filters.from || 'all'}-to-${filters.to || 'all'}.${format}`;
+        res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+        for await (const line of exportService.lines(restaurantId, filters, format)) {
+            if (aborted) break;
+            // Respect backpressure so slow clients don't buffer the export in memory
+            if (!res.write(line)) {
+                await new Promise<void>(resolve => {
+                    const done = () => {
+                        res.off('drain', done);
+                        res.off('close', done);
+                        resolve();
+                    };
+                    res.on('drain', done);
+                    res.on('close', done);
+                });
+            }
+        }
+
+        res.end();
+    } catch (error: any) {
+        console.error('Export bookings error:', error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Failed to export bookings' });
+        } else {
+            // Cut the response off so a truncated file doesn't look complete
+            res.destroy();
+        }
+    }
+});
+
+/**
+ * Check a time for staff, with the nearest alternatives when it is not bookable
+ */
+router.get('/availability', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { date, time, partySize, area, adjacentDays, limit } = req.query;
+
+        if (!date || !time || !partySize) {
+            return res.status(400).json({ error: 'Date, time and party size are required' });
+        }
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
+
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        const availability = await availabilityService.checkAvailability(restaurant, {
+            date: normalizeDate(date as string)!,
+            time: normalizeTime(time as string)!,
+            partySize: Number(partySize),
+            area: area as string | undefined
+        }, {
+            limit: Number(limit) || 5,
+            includeAdjacentDays: adjacentDays !== 'false'
+        });
+
+        res.json({ availability });
+    } catch (error: any) {
+        console.error('Check availability error:', error);
+        res.status(500).json({ error: 'Failed to check availability' });
+    }
+});
+
+/**
+ * Import reservations from a CSV file (multipart "file") or CSV text (JSON "csv").
+ * Run with dryRun first to preview per-row errors.
+ */
+router.post('/import', importUpload.single('file'), async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const csv = req.file ? req.file.buffer.toString('utf8') : req.body.csv;
+        const flag = (value: any) => value === true || value === 'true';
+
+        if (!csv || typeof csv !== 'string') {
+            return res.status(400).json({ error: 'Upload a CSV file or send CSV text' });
+        }
+
+        let mapping = req.body.mapping;
+        if (typeof mapping === 'string') {
+            try {
+                mapping = JSON.parse(mapping);
+            } catch {
+                return res.status(400).json({ error: 'Mapping must be JSON' });
+            }
+        }
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
+
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        const result = await importService.importBookings(restaurant, csv, {
+            mapping,
+            dryRun: flag(req.body.dryRun),
+            sendConfirmations: flag(req.body.sendConfirmations),
+            queueSync: flag(req.body.queueSync),
+            actor: { type: 'staff', id: req.user!.id }
+        });
+
+        if (result.error) {
+            return res.status(400).json(result);
+        }
+
+        res.status(result.dryRun || result.created === 0 ? 200 : 201).json(result);
+    } catch (error: any) {
+        console.error('Import bookings error:', error);
+        res.status(500).json({ error: 'Failed to import bookings' });
+    }
+});
+
 /**
  * Get single booking
  */
@@ -220,13 +424,86 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
             return res.status(404).json({ error: 'Booking not found' });
         }
 
-        res.json({ booking });
+        // Past cancellations and no-shows for the same guest
+        const guestHistory = await cancellationPolicyService.getGuestHistory(restaurantId, {
+            email: booking.guest_email,
+            phone: booking.guest_phone
+        });
+
+        // Allergies, preferences, tags and notes for the host
+        const { data: guest } = booking.guest_id
+            ? await supabase.from('guests').select('*').eq('id', booking.guest_id).single()
+            : { data: null };
+
+        res.json({ booking, guest, guestHistory });
     } catch (error: any) {
         console.error('Get booking error:', error);
         res.status(500).json({ error: 'Failed to fetch booking' });
     }
 });
 
+/**
+ * Preview what cancelling a booking now would cost the guest
+ */
+router.get('/:id/cancellation', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { data: booking } = await supabase
+            .from('bookings')
+            .select('*')
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId)
+            .single();
+
+        if (!booking) {
+            return res.status(404).json({ error: 'Booking not found' });
+        }
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
+
+        const policy = await cancellationPolicyService.assessCancellation(restaurant, booking);
+
+        res.json({ policy });
+    } catch (error: any) {
+        console.error('Cancellation preview error:', error);
+        res.status(500).json({ error: 'Failed to check cancellation policy' });
+    }
+});
+
+/**
+ * Get change history for a booking
+ */
+router.get('/:id/history', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { data: booking } = await supabase
+            .from('bookings')
+            .select('id')
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId)
+            .single();
+
+        if (!booking) {
+            return res.status(404).json({ error: 'Booking not found' });
+        }
+
+        const history = await auditService.getBookingHistory(id);
+
+        res.json({ history });
+    } catch (error: any) {
+        console.error('Get booking history error:', error);
+        res.status(500).json({ error: 'Failed to fetch booking history' });
+    }
+});
+
 /**
  * Update booking
  */
@@ -234,7 +511,15 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
     try {
         const { id } = req.params;
         const restaurantId = req.user!.restaurantId;
-        const updates = req.body;
+
+        if (req.body.status !== undefined) {
+            return res.status(400).json({ error: 'Use the confirm, seat, complete, no-show or cancel endpoints to change booking status' });
+        }
+
+        const updates: any = {};
+        for (const field of EDITABLE_FIELDS) {
+            if (req.body[field] !== undefined) updates[field] = req.body[field];
+        }
 
         // Get existing booking
         const { data: existingBooking } = await supabase
@@ -248,46 +533,31 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
             return res.status(404).json({ error: 'Booking not found' });
         }
 
-        // Update booking
-        const { data: booking, error } = await supabase
-            .from('bookings')
-            .update(updates)
-            .eq('id', id)
-            .eq('restaurant_id', restaurantId)
-            .select()
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
             .single();
 
-        if (error) {
-            console.error('Database error:', error);
-            return res.status(500).json({ error: 'Failed to update booking' });
-        }
+        const result = await bookingService.updateBooking(restaurant, existingBooking, updates, { type: 'staff', id: req.user!.id });
 
-        // Update calendar event if exists
-        if (existingBooking.calendar_event_id) {
-            const { data: restaurant } = await supabase
-                .from('restaurants')
-                .select('google_calendar_tokens')
-                .eq('id', restaurantId)
-                .single();
-
-            if (restaurant?.google_calendar_tokens) {
-                try {
-                    await calendarService.updateEvent(
-                        JSON.parse(restaurant.google_calendar_tokens),
-                        existingBooking.calendar_event_id,
-                        {
-                            summary: `Booking: ${booking.guest_name} (${booking.party_size} guests)`,
-                            start: new Date(`${booking.booking_date}T${booking.booking_time}`),
-                            end: new Date(new Date(`${booking.booking_date}T${booking.booking_time}`).getTime() + 2 * 60 * 60 * 1000)
-                        }
-                    );
-                } catch (calendarError) {
-                    console.error('Calendar update error:', calendarError);
-                }
+        if (!result.success) {
+            if (result.notEditable) {
+                return res.status(409).json({ error: result.error });
             }
+            const availability = result.availability;
+            if (availability && !availability.available) {
+                return res.status(409).json({
+                    error: 'No tables available for the requested time',
+                    reason: availability.reason,
+                    message: availability.message,
+                    suggestions: availability.suggestions
+                });
+            }
+            return res.status(500).json({ error: 'Failed to update booking' });
         }
 
-        res.json({ message: 'Booking updated successfully', booking });
+        res.json({ message: 'Booking updated successfully', booking: result.booking });
     } catch (error: any) {
         console.error('Update booking error:', error);
         res.status(500).json({ error: 'Failed to update booking' });
@@ -314,47 +584,19 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
             return res.status(404).json({ error: 'Booking not found' });
         }
 
-        // Update status to cancelled
-        const { error } = await supabase
-            .from('bookings')
-            .update({ status: 'cancelled' })
-            .eq('id', id);
-
-        if (error) {
-            console.error('Database error:', error);
-            return res.status(500).json({ error: 'Failed to cancel booking' });
-        }
-
-        // Delete calendar event
-        if (booking.calendar_event_id) {
-            const { data: restaurant } = await supabase
-                .from('restaurants')
-                .select('google_calendar_tokens')
-                .eq('id', restaurantId)
-                .single();
-
-            if (restaurant?.google_calendar_tokens) {
-                try {
-                    await calendarService.deleteEvent(
-                        JSON.parse(restaurant.google_calendar_tokens),
-                        booking.calendar_event_id
-                    );
-                } catch (calendarError) {
-                    console.error('Calendar delete error:', calendarError);
-                }
-            }
-        }
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
 
-        // Update HubSpot deal
-        if (booking.hubspot_deal_id) {
-            try {
-                await hubspotService.updateDealStatus(booking.hubspot_deal_id, 'cancelled');
-            } catch (hubspotError) {
-                console.error('HubSpot error:', hubspotError);
-            }
+        const waivePenalty = req.body?.waivePenalty === true || req.query.waivePenalty === 'true';
+        const result = await bookingService.cancelBooking(restaurant, booking, { type: 'staff', id: req.user!.id }, { waivePenalty });
+        if (!result.success) {
+            return res.status(result.invalidTransition ? 409 : 500).json({ error: result.error || 'Failed to cancel booking' });
         }
 
-        res.json({ message: 'Booking cancelled successfully' });
+        res.json({ message: 'Booking cancelled successfully', policy: result.policy });
     } catch (error: any) {
         console.error('Cancel booking error:', error);
         res.status(500).json({ error: 'Failed to cancel booking' });
@@ -362,42 +604,144 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
 });
 
 /**
- * Check table availability
+ * Move a booking through its lifecycle
  */
-async function checkTableAvailability(
-    restaurantId: string,
-    date: string,
-    time: string,
-    partySize: number
-): Promise<boolean> {
-    // Get restaurant capacity and existing bookings
-    const { data: restaurant } = await supabase
-        .from('restaurants')
-        .select('capacity, max_party_size')
-        .eq('id', restaurantId)
-        .single();
-
-    if (!restaurant) return false;
-
-    // Check if party size exceeds maximum
-    if (partySize > (restaurant.max_party_size || 10)) {
-        return false;
+async function transitionBooking(req: AuthRequest, res: Response, to: BookingStatus, label: string) {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { data: booking } = await supabase
+            .from('bookings')
+            .select('*')
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId)
+            .single();
+
+        if (!booking) {
+            return res.status(404).json({ error: 'Booking not found' });
+        }
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
+
+        const result = await bookingService.transitionBooking(restaurant, booking, to, { type: 'staff', id: req.user!.id }, {
+            waivePenalty: req.body?.waivePenalty === true
+        });
+        if (!result.success) {
+            return res.status(result.invalidTransition ? 409 : 500).json({ error: result.error });
+        }
+
+        res.json({ message: `Booking ${label} successfully`, booking: result.booking, policy: result.policy });
+    } catch (error: any) {
+        console.error(`Booking ${to} error:`, error);
+        res.status(500).json({ error: 'Failed to update booking status' });
     }
+}
 
-    // Get bookings for the same date and time slot (±1 hour)
-    const { data: existingBookings } = await supabase
-        .from('bookings')
-        .select('party_size')
-        .eq('restaurant_id', restaurantId)
-        .eq('booking_date', date)
-        .gte('booking_time', time)
-        .lte('booking_time', time)
-        .eq('status', 'confirmed');
+/**
+ * Confirm a pending booking
+ */
+router.post('/:id/confirm', (req: AuthRequest, res: Response) => transitionBooking(req, res, 'confirmed', 'confirmed'));
 
-    const totalBooked = existingBookings?.reduce((sum, b) => sum + b.party_size, 0) || 0;
-    const availableCapacity = (restaurant.capacity || 50) - totalBooked;
+/**
+ * Run a host action on a booking during service
+ */
+async function seatingAction(
+    req: AuthRequest,
+    res: Response,
+    label: string,
+    action: (restaurant: any, booking: any, actor: BookingActor) => Promise<SeatingResult>
+) {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { data: booking } = await supabase
+            .from('bookings')
+            .select('*')
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId)
+            .single();
 
-    return availableCapacity >= partySize;
+        if (!booking) {
+            return res.status(404).json({ error: 'Booking not found' });
+        }
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
+
+        const result = await action(restaurant, booking, { type: 'staff', id: req.user!.id });
+        if (!result.success) {
+            return res.status(409).json({ error: result.error, conflicts: result.conflicts });
+        }
+
+        res.json({ message: `Booking ${label} successfully`, booking: result.booking, conflicts: result.conflicts });
+    } catch (error: any) {
+        console.error(`Booking ${label} error:`, error);
+        res.status(500).json({ error: 'Failed to update booking' });
+    }
 }
 
+/**
+ * Assign or move a booking to tables. Pass force to double up on a table another party holds.
+ */
+router.put('/:id/tables', (req: AuthRequest, res: Response) => seatingAction(req, res, 'table assigned', (restaurant, booking, actor) =>
+    seatingService.assignTables(restaurant, booking, req.body.tableIds, actor, req.body.force === true)
+));
+
+/**
+ * Mark a party as arrived and waiting
+ */
+router.post('/:id/arrive', (req: AuthRequest, res: Response) => seatingAction(req, res, 'marked as arrived', (restaurant, booking, actor) =>
+    seatingService.markArrived(restaurant, booking, actor)
+));
+
+/**
+ * Seat a confirmed booking, optionally at different tables
+ */
+router.post('/:id/seat', (req: AuthRequest, res: Response) => seatingAction(req, res, 'seated', (restaurant, booking, actor) =>
+    seatingService.seatParty(restaurant, booking, Array.isArray(req.body?.tableIds) ? req.body.tableIds : undefined, actor, req.body?.force === true)
+));
+
+/**
+ * Mark a seated party as on mains
+ */
+router.post('/:id/mains', (req: AuthRequest, res: Response) => seatingAction(req, res, 'marked as on mains', (restaurant, booking, actor) =>
+    seatingService.markStage(restaurant, booking, 'mains', actor)
+));
+
+/**
+ * Mark a seated party as paid
+ */
+router.post('/:id/paid', (req: AuthRequest, res: Response) => seatingAction(req, res, 'marked as paid', (restaurant, booking, actor) =>
+    seatingService.markStage(restaurant, booking, 'paid', actor)
+));
+
+/**
+ * Free the table, completing the booking
+ */
+router.post('/:id/free', (req: AuthRequest, res: Response) => transitionBooking(req, res, 'completed', 'completed'));
+
+/**
+ * Complete a seated booking
+ */
+router.post('/:id/complete', (req: AuthRequest, res: Response) => transitionBooking(req, res, 'completed', 'completed'));
+
+/**
+ * Mark a confirmed booking as a no-show
+ */
+router.post('/:id/no-show', (req: AuthRequest, res: Response) => transitionBooking(req, res, 'no_show', 'marked as no-show'));
+
+/**
+ * Cancel a booking
+ */
+router.post('/:id/cancel', (req: AuthRequest, res: Response) => transitionBooking(req, res, 'cancelled', 'cancelled'));
+
 export default router;
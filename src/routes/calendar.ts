@@ -2,6 +2,7 @@ import { Router, Response } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import supabase from '../config/supabase';
 import calendarService from '../services/calendar.service';
+import calendarFeedService from '../services/calendarFeed.service';
 
 const router = Router();
 
@@ -25,8 +26,115 @@ router.get('/callback', (req: any, res: Response) => {
     res.redirect(`${frontendUrl}/settings?code=${code}`);
 });
 
+/**
+ * iCalendar subscription feed. Public because calendar apps can't send auth headers;
+ * the secret token in the URL is the credential.
+ */
+router.get('/feed/:token', async (req: any, res: Response) => {
+    try {
+        const token = String(req.params.token).replace(/\.ics$/i, '');
+        const feed = await calendarFeedService.renderFeed(token);
+
+        if (!feed) {
+            return res.status(404).json({ error: 'Calendar feed not found' });
+        }
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', 'inline; filename="bookings.ics"');
+        res.setHeader('Cache-Control', 'private, max-age=300');
+        res.send(feed);
+    } catch (error: any) {
+        console.error('Calendar feed error:', error);
+        res.status(500).json({ error: 'Failed to generate calendar feed' });
+    }
+});
+
 router.use(authenticateToken);
 
+/**
+ * Get the calendar feed URL and options
+ */
+router.get('/feed', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('calendar_feed_token, calendar_feed_options')
+            .eq('id', restaurantId)
+            .single();
+
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        res.json({
+            enabled: !!restaurant.calendar_feed_token,
+            url: restaurant.calendar_feed_token ? calendarFeedService.feedUrl(restaurant.calendar_feed_token) : null,
+            options: calendarFeedService.getOptions(restaurant)
+        });
+    } catch (error: any) {
+        console.error('Get calendar feed error:', error);
+        res.status(500).json({ error: 'Failed to get calendar feed' });
+    }
+});
+
+/**
+ * Turn on the calendar feed, or issue a new URL and revoke the old one
+ */
+router.post('/feed', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const options = req.body?.options;
+
+        if (options !== undefined) {
+            const validationError = calendarFeedService.validateOptions(options);
+            if (validationError) {
+                return res.status(400).json({ error: validationError });
+            }
+        }
+
+        const feed = await calendarFeedService.enableFeed(restaurantId, options);
+        res.json({ message: 'Calendar feed enabled', enabled: true, ...feed });
+    } catch (error: any) {
+        console.error('Enable calendar feed error:', error);
+        res.status(500).json({ error: 'Failed to enable calendar feed' });
+    }
+});
+
+/**
+ * Update what the calendar feed includes, keeping its URL
+ */
+router.put('/feed', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const validationError = calendarFeedService.validateOptions(req.body?.options);
+
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const options = await calendarFeedService.updateOptions(restaurantId, req.body.options);
+        res.json({ message: 'Calendar feed updated', options });
+    } catch (error: any) {
+        console.error('Update calendar feed error:', error);
+        res.status(500).json({ error: 'Failed to update calendar feed' });
+    }
+});
+
+/**
+ * Revoke the calendar feed URL
+ */
+router.delete('/feed', async (req: AuthRequest, res: Response) => {
+    try {
+        await calendarFeedService.disableFeed(req.user!.restaurantId);
+        res.json({ message: 'Calendar feed disabled', enabled: false });
+    } catch (error: any) {
+        console.error('Disable calendar feed error:', error);
+        res.status(500).json({ error: 'Failed to disable calendar feed' });
+    }
+});
+
 /**
  * Get Google Calendar authorization URL
  */
@@ -1,6 +1,9 @@
 import { Router, Response } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import supabase from '../config/supabase';
+import seatingService from '../services/seating.service';
+import { addDays, restaurantTimeZone, todayIn, zonedTimeToUtc } from '../utils/datetime';
+import { ACTIVE_BOOKING_STATUSES } from '../utils/bookingStatus';
 
 const router = Router();
 router.use(authenticateToken);
@@ -13,6 +16,16 @@ router.get('/stats', async (req: AuthRequest, res: Response) => {
         const restaurantId = req.user!.restaurantId;
         const { startDate, endDate } = req.query;
 
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('timezone')
+            .eq('id', restaurantId)
+            .single();
+
+        // Dates are the restaurant's local days
+        const timeZone = restaurantTimeZone(restaurant);
+        const today = todayIn(timeZone);
+
         // Get total bookings
         let bookingsQuery = supabase
             .from('bookings')
@@ -33,14 +46,25 @@ router.get('/stats', async (req: AuthRequest, res: Response) => {
             .eq('restaurant_id', restaurantId)
             .order('created_at', { ascending: false });
 
-        if (startDate) callsQuery = callsQuery.gte('created_at', startDate);
-        if (endDate) callsQuery = callsQuery.lte('created_at', endDate);
+        // Call timestamps are instants, so convert the local day boundaries
+        if (startDate) callsQuery = callsQuery.gte('created_at', zonedTimeToUtc(startDate as string, '00:00', timeZone).toISOString());
+        if (endDate) callsQuery = callsQuery.lt('created_at', zonedTimeToUtc(addDays(endDate as string, 1), '00:00', timeZone).toISOString());
 
         const { data: calls, count: totalCalls } = await callsQuery;
 
+        // Today's service
+        const { data: todaysBookings } = await supabase
+            .from('bookings')
+            .select('party_size')
+            .eq('restaurant_id', restaurantId)
+            .eq('booking_date', today)
+            .in('status', ACTIVE_BOOKING_STATUSES);
+
         // Calculate statistics
         const confirmedBookings = bookings?.filter(b => b.status === 'confirmed').length || 0;
         const cancelledBookings = bookings?.filter(b => b.status === 'cancelled').length || 0;
+        const completedBookings = bookings?.filter(b => b.status === 'completed').length || 0;
+        const noShowBookings = bookings?.filter(b => b.status === 'no_show').length || 0;
         const totalGuests = bookings?.reduce((sum, b) => sum + (b.party_size || 0), 0) || 0;
         const avgPartySize = totalBookings ? (totalGuests / totalBookings).toFixed(1) : 0;
 
@@ -61,10 +85,18 @@ router.get('/stats', async (req: AuthRequest, res: Response) => {
         const recentCalls = calls?.slice(0, 10) || [];
 
         res.json({
+            today: {
+                date: today,
+                timezone: timeZone,
+                bookings: todaysBookings?.length || 0,
+                covers: todaysBookings?.reduce((sum, b) => sum + (b.party_size || 0), 0) || 0
+            },
             bookings: {
                 total: totalBookings,
                 confirmed: confirmedBookings,
                 cancelled: cancelledBookings,
+                completed: completedBookings,
+                noShow: noShowBookings,
                 totalGuests,
                 avgPartySize,
                 bySource: bookingsBySource
@@ -111,4 +143,30 @@ router.get('/calls', async (req: AuthRequest, res: Response) => {
     }
 });
 
+/**
+ * Actual turn times by party size from seated and freed tables, next to the configured ones
+ */
+router.get('/turn-times', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 365);
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
+
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        const turnTimes = await seatingService.getTurnTimeStats(restaurant, days);
+        res.json({ days, turnTimes });
+    } catch (error: any) {
+        console.error('Get turn times error:', error);
+        res.status(500).json({ error: 'Failed to fetch turn times' });
+    }
+});
+
 export default router;
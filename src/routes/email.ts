@@ -2,9 +2,26 @@ import { Router, Request, Response } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import supabase from '../config/supabase';
 import emailService from '../services/email.service';
+import hoursService from '../services/hours.service';
+import bookingService from '../services/booking.service';
+import { BookingActor } from '../services/audit.service';
+import guestService from '../services/guest.service';
+import { normalizeDate, normalizeTime } from '../utils/datetime';
+import { emailIdempotencyKey } from '../utils/idempotency';
+import { confirmationCodeCandidates } from '../utils/confirmationCode';
 
 const router = Router();
 
+/**
+ * Message-ID of an inbound email, from the parsed headers or the raw message
+ */
+function getMessageId(headers: any, raw?: string): string | undefined {
+    const fromHeaders = headers?.message_id || headers?.['message-id'] || headers?.['Message-ID'];
+    const fromRaw = raw?.match(/^Message-ID:\s*(\S+)/im)?.[1];
+    const messageId = String(fromHeaders || fromRaw || '').trim();
+    return messageId || undefined;
+}
+
 /**
  * BCC email webhook (receives emails from Zenchef/SevenRooms)
  */
@@ -19,6 +36,7 @@ router.post('/bcc', async (req: Request, res: Response) => {
         const subject = headers?.subject || req.body.subject || '';
         const emailBody = plain || html || req.body.text || req.body.html || '';
         const raw = req.body.raw || emailBody;
+        const messageId = getMessageId(headers, req.body.raw);
 
         console.log('BCC Email received:', { to, from, subject });
 
@@ -33,12 +51,37 @@ router.post('/bcc', async (req: Request, res: Response) => {
         const restaurantId = match[1];
         console.log('Processing BCC email for restaurant:', restaurantId);
 
+        // Mail providers redeliver on timeouts and errors; a Message-ID that was processed is skipped,
+        // one whose earlier attempt failed part way is processed again
+        let previousAttempt: { id: string } | null = null;
+        if (messageId) {
+            const { data: seen } = await supabase
+                .from('bcc_emails')
+                .select('id, processed_at')
+                .eq('restaurant_id', restaurantId)
+                .eq('message_id', messageId)
+                .maybeSingle();
+
+            if (seen?.processed_at) {
+                console.log('Duplicate BCC email ignored:', messageId);
+                return res.json({ received: true, duplicate: true });
+            }
+            previousAttempt = seen;
+        }
+
         // Parse email content
         const parsedData = await emailService.parseBCCEmail(raw || emailBody);
 
+        // Cancellations only link to a guest we already know
+        const guestId = await guestService.linkGuest(restaurantId, {
+            name: parsedData.guestName,
+            email: parsedData.email,
+            phone: parsedData.phone
+        }, parsedData.type !== 'cancellation');
+
         // Store in database
-        await supabase.from('bcc_emails').insert({
-            restaurant_id: restaurantId,
+        const logFields = {
+            guest_id: guestId,
             from_email: from,
             subject,
             parsed_type: parsedData.type,
@@ -49,90 +92,100 @@ router.post('/bcc', async (req: Request, res: Response) => {
             booking_time: parsedData.time,
             party_size: parsedData.partySize,
             raw_content: raw || emailBody
-        });
+        };
+        const { data: emailLog, error: logError } = previousAttempt
+            ? await supabase.from('bcc_emails').update(logFields).eq('id', previousAttempt.id).select('id').single()
+            : await supabase.from('bcc_emails').insert({ restaurant_id: restaurantId, message_id: messageId, ...logFields }).select('id').single();
+
+        // A concurrent delivery of the same email got there first
+        if (logError?.code === '23505') {
+            console.log('Duplicate BCC email ignored:', messageId);
+            return res.json({ received: true, duplicate: true });
+        }
+        if (logError || !emailLog) throw logError;
+
+        const emailActor: BookingActor = { type: 'email', id: emailLog.id };
+
+        // Redeliveries are only ignored once the email was fully handled
+        const markProcessed = async () => {
+            await supabase
+                .from('bcc_emails')
+                .update({ processed_at: new Date().toISOString() })
+                .eq('id', emailLog.id);
+        };
 
         // Fetch restaurant for integrations
         const { data: restaurant } = await supabase
             .from('restaurants')
-            .select('name, google_calendar_tokens')
+            .select('*')
             .eq('id', restaurantId)
             .single() as any;
 
-        const hubspotService = require('../services/hubspot.service').default;
-        const calendarService = require('../services/calendar.service').default;
-
-        // Helper to sync HubSpot deal stage
-        const syncHubspotStage = async (dealId: string | null, stage: 'confirmed' | 'cancelled') => {
-            if (!dealId) return;
-            try {
-                await hubspotService.updateDealStatus(dealId, stage);
-            } catch (err) {
-                console.error('HubSpot stage sync error for BCC:', err);
+        // Reject imports that fall outside opening hours, service periods or closures
+        const bookingDate = normalizeDate(parsedData.date);
+        const bookingTime = normalizeTime(parsedData.time);
+        if (restaurant && bookingDate && bookingTime && parsedData.type !== 'cancellation') {
+            const hours = await hoursService.checkOpeningHours(restaurant, bookingDate, bookingTime);
+            if (!hours.open) {
+                console.warn('BCC booking outside opening hours, not imported:', hours.message);
+                if (restaurant.email) {
+                    try {
+                        await emailService.sendRestaurantNotification({
+                            to: restaurant.email,
+                            subject: 'External Booking Not Imported',
+                            message: `A ${parsedData.source} booking for ${parsedData.guestName || 'a guest'} on ${bookingDate} at ${bookingTime} was not imported. ${hours.message}`
+                        });
+                    } catch (notifyError) {
+                        console.error('Restaurant notification error for BCC:', notifyError);
+                    }
+                }
+                await markProcessed();
+                return res.json({ received: true, parsed: parsedData, imported: false, reason: hours.reason });
             }
-        };
+        }
 
         // If it's a new booking, create it in our system
-        if (parsedData.type === 'new' && parsedData.email) {
-            const { data: booking } = await supabase.from('bookings').insert({
-                restaurant_id: restaurantId,
-                guest_name: parsedData.guestName || 'Guest',
-                guest_email: parsedData.email,
-                guest_phone: parsedData.phone,
-                booking_date: parsedData.date,
-                booking_time: parsedData.time,
-                party_size: parsedData.partySize,
-                status: 'confirmed',
+        if (parsedData.type === 'new' && parsedData.email && restaurant && bookingDate && bookingTime) {
+            const input = {
+                guestName: parsedData.guestName || 'Guest',
+                guestEmail: parsedData.email,
+                guestPhone: parsedData.phone,
+                date: bookingDate,
+                time: bookingTime,
+                partySize: parsedData.partySize || 2,
+                confirmationNumber: parsedData.confirmationNumber
+            };
+            // The platform already confirmed the guest and took any deposit; the booking window is its call
+            const options = {
                 source: parsedData.source,
-                confirmation_number: parsedData.confirmationNumber || `EXT-${Date.now()}`
-            }).select().single();
-
-            // 1. HubSpot Sync
-            try {
-                await hubspotService.upsertContact({
-                    email: parsedData.email,
-                    firstName: parsedData.guestName?.split(' ')[0] || 'Guest',
-                    lastName: parsedData.guestName?.split(' ').slice(1).join(' ') || '',
-                    phone: parsedData.phone,
-                    restaurantName: restaurant?.name
-                });
-
-                const deal = await hubspotService.createDeal({
-                    dealName: `${restaurant?.name} - ${parsedData.guestName} - ${parsedData.date}`,
-                    contactEmail: parsedData.email,
-                    restaurantId,
-                    reservationDate: `${parsedData.date} ${parsedData.time}`,
-                    partySize: parsedData.partySize
-                });
-
-                // Persist deal id
-                if (deal?.id) {
-                    await supabase
-                        .from('bookings')
-                        .update({ hubspot_deal_id: deal.id })
-                        .eq('id', booking.id);
+                notifyGuest: false,
+                notifyRestaurant: false,
+                actor: emailActor,
+                idempotencyKey: emailIdempotencyKey(messageId),
+                ignoreBookingWindow: true,
+                skipPayment: true
+            };
+
+            let result = await bookingService.createBooking(restaurant, input, options);
+
+            // Still import a confirmed guest we have no table for, so staff can sort out the overbooking
+            if (!result.success && result.availability && !result.availability.available) {
+                const reason = result.error;
+                result = await bookingService.createBooking(restaurant, input, { ...options, skipAvailabilityCheck: true });
+                if (result.success && !result.duplicate && restaurant.email) {
+                    try {
+                        await emailService.sendRestaurantNotification({
+                            to: restaurant.email,
+                            subject: 'External Booking Needs a Table',
+                            message: `A ${parsedData.source} booking ${result.booking.confirmation_number} for ${input.guestName}, party of ${input.partySize}, on ${bookingDate} at ${bookingTime} was imported without a table. ${reason || ''} Please seat it from the dashboard.`
+                        });
+                    } catch (notifyError) {
+                        console.error('Restaurant notification error for BCC:', notifyError);
+                    }
                 }
-            } catch (err) {
-                console.error('HubSpot sync error for BCC:', err);
             }
 
-            // 2. Google Calendar Sync
-            if (restaurant?.google_calendar_tokens && parsedData.date && parsedData.time) {
-                try {
-                    const startTime = new Date(`${parsedData.date}T${parsedData.time}:00`);
-                    const endTime = new Date(startTime.getTime() + 90 * 60000); // 90 min default
-
-                    await calendarService.createEvent(JSON.parse(restaurant.google_calendar_tokens), {
-                        summary: `Reservation: ${parsedData.guestName} (${parsedData.partySize} ppl)`,
-                        description: `Source: ${parsedData.source.toUpperCase()}\nPhone: ${parsedData.phone}\nEmail: ${parsedData.email}\nConf: ${parsedData.confirmationNumber}`,
-                        start: startTime,
-                        end: endTime,
-                        attendees: parsedData.email ? [parsedData.email] : []
-                    });
-                    console.log('✅ Google Calendar event created from BCC');
-                } catch (calError) {
-                    console.error('Calendar sync error for BCC:', calError);
-                }
-            }
+            if (!result.success) throw new Error(result.error || 'Failed to import BCC booking');
         }
 
         // Handle modifications
@@ -146,40 +199,36 @@ router.post('/bcc', async (req: Request, res: Response) => {
                 .limit(1);
 
             if (parsedData.confirmationNumber) {
-                modQuery = modQuery.eq('confirmation_number', parsedData.confirmationNumber);
+                modQuery = modQuery.in('confirmation_number', confirmationCodeCandidates(parsedData.confirmationNumber));
             } else {
                 modQuery = modQuery.eq('guest_email', parsedData.email);
             }
 
             const { data: booking } = await modQuery.single();
 
-            if (booking) {
-                const updates: any = {
-                    booking_date: parsedData.date || booking.booking_date,
-                    booking_time: parsedData.time || booking.booking_time,
-                    party_size: parsedData.partySize || booking.party_size
-                };
-
-                await supabase
-                    .from('bookings')
-                    .update(updates)
-                    .eq('id', booking.id);
-
-                if (restaurant?.google_calendar_tokens && booking.calendar_event_id) {
-                    try {
-                        const startTime = new Date(`${updates.booking_date}T${updates.booking_time}:00`);
-                        const endTime = new Date(startTime.getTime() + 90 * 60000);
-                        await calendarService.updateEvent(JSON.parse(restaurant.google_calendar_tokens), booking.calendar_event_id, {
-                            start: startTime,
-                            end: endTime,
-                            summary: `Reservation: ${booking.guest_name} (${updates.party_size} ppl)`
-                        });
-                    } catch (calError) {
-                        console.error('Calendar update error for BCC:', calError);
+            if (booking && restaurant && (bookingDate || bookingTime || parsedData.partySize)) {
+                const updates: any = {};
+                if (bookingDate) updates.booking_date = bookingDate;
+                if (bookingTime) updates.booking_time = bookingTime;
+                if (parsedData.partySize) updates.party_size = parsedData.partySize;
+
+                // Same availability and table checks as any other edit; the platform already told the guest
+                const result = await bookingService.updateBooking(restaurant, booking, updates, emailActor, { notifyGuest: false });
+
+                if (!result.success) {
+                    console.warn('BCC modification not applied:', result.error);
+                    if (restaurant.email) {
+                        try {
+                            await emailService.sendRestaurantNotification({
+                                to: restaurant.email,
+                                subject: 'External Booking Change Not Applied',
+                                message: `A ${parsedData.source} change to booking ${booking.confirmation_number} for ${booking.guest_name} was not applied. ${result.error || ''} Please update it from the dashboard.`
+                            });
+                        } catch (notifyError) {
+                            console.error('Restaurant notification error for BCC:', notifyError);
+                        }
                     }
                 }
-
-                await syncHubspotStage(booking.hubspot_deal_id, 'confirmed');
             }
         }
 
@@ -193,31 +242,20 @@ router.post('/bcc', async (req: Request, res: Response) => {
                 .limit(1);
 
             if (parsedData.confirmationNumber) {
-                cancelQuery = cancelQuery.eq('confirmation_number', parsedData.confirmationNumber);
+                cancelQuery = cancelQuery.in('confirmation_number', confirmationCodeCandidates(parsedData.confirmationNumber));
             } else {
                 cancelQuery = cancelQuery.eq('guest_email', parsedData.email);
             }
 
             const { data: booking } = await cancelQuery.single();
 
-            if (booking) {
-                await supabase
-                    .from('bookings')
-                    .update({ status: 'cancelled' })
-                    .eq('id', booking.id);
-
-                if (restaurant?.google_calendar_tokens && booking.calendar_event_id) {
-                    try {
-                        await calendarService.deleteEvent(JSON.parse(restaurant.google_calendar_tokens), booking.calendar_event_id);
-                    } catch (calError) {
-                        console.error('Calendar delete error for BCC:', calError);
-                    }
-                }
-
-                await syncHubspotStage(booking.hubspot_deal_id, 'cancelled');
+            if (booking && restaurant) {
+                // The booking platform that sent the email tells the guest itself
+                await bookingService.cancelBooking(restaurant, booking, emailActor, { notifyGuest: false });
             }
         }
 
+        await markProcessed();
         res.json({ received: true, parsed: parsedData });
     } catch (error: any) {
         console.error('BCC email processing error:', error);
@@ -0,0 +1,182 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import supabase from '../config/supabase';
+import guestService, { GUEST_TAGS, GuestSort } from '../services/guest.service';
+
+const router = Router();
+router.use(authenticateToken);
+
+const GUEST_SORTS: GuestSort[] = ['recent', 'visits', 'name'];
+
+/**
+ * List and search guests by name, email, phone or tag
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { q, tag, sort, limit = 50, offset = 0 } = req.query;
+
+        if (sort && !GUEST_SORTS.includes(sort as GuestSort)) {
+            return res.status(400).json({ error: `Sort must be one of ${GUEST_SORTS.join(', ')}` });
+        }
+
+        const { guests, total } = await guestService.listGuests(restaurantId, {
+            q: q as string | undefined,
+            tag: tag as string | undefined,
+            sort: sort as GuestSort | undefined,
+            limit: Number(limit),
+            offset: Number(offset)
+        });
+
+        res.json({ guests, total, limit: Number(limit), offset: Number(offset), tags: GUEST_TAGS });
+    } catch (error: any) {
+        console.error('Get guests error:', error);
+        res.status(500).json({ error: 'Failed to fetch guests' });
+    }
+});
+
+/**
+ * Get a guest with their bookings, calls and emails
+ */
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { data: guest, error } = await supabase
+            .from('guests')
+            .select('*')
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId)
+            .single();
+
+        if (error || !guest) {
+            return res.status(404).json({ error: 'Guest not found' });
+        }
+
+        const [{ data: bookings }, { data: calls }, { data: emails }] = await Promise.all([
+            supabase
+                .from('bookings')
+                .select('*')
+                .eq('guest_id', id)
+                .eq('restaurant_id', restaurantId)
+                .order('booking_date', { ascending: false })
+                .order('booking_time', { ascending: false })
+                .limit(50),
+            supabase
+                .from('call_logs')
+                .select('id, call_id, caller_number, status, duration, started_at, ended_at')
+                .eq('guest_id', id)
+                .eq('restaurant_id', restaurantId)
+                .order('started_at', { ascending: false })
+                .limit(20),
+            supabase
+                .from('bcc_emails')
+                .select('id, from_email, subject, parsed_type, parsed_source, booking_date, booking_time, created_at')
+                .eq('guest_id', id)
+                .eq('restaurant_id', restaurantId)
+                .order('created_at', { ascending: false })
+                .limit(20)
+        ]);
+
+        res.json({ guest, bookings: bookings || [], calls: calls || [], emails: emails || [] });
+    } catch (error: any) {
+        console.error('Get guest error:', error);
+        res.status(500).json({ error: 'Failed to fetch guest' });
+    }
+});
+
+/**
+ * Create a guest profile
+ */
+router.post('/', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+
+        const validationError = guestService.validateGuest(req.body, true);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const { data: guest, error } = await supabase
+            .from('guests')
+            .insert({ restaurant_id: restaurantId, ...guestService.toColumns(req.body) })
+            .select()
+            .single();
+
+        if (error?.code === '23505') {
+            return res.status(409).json({ error: 'A guest with this email or phone number already exists' });
+        }
+        if (error) {
+            console.error('Database error:', error);
+            return res.status(500).json({ error: 'Failed to create guest' });
+        }
+
+        res.status(201).json({ message: 'Guest created successfully', guest });
+    } catch (error: any) {
+        console.error('Create guest error:', error);
+        res.status(500).json({ error: 'Failed to create guest' });
+    }
+});
+
+/**
+ * Update a guest's contact details, preferences, tags or notes
+ */
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const validationError = guestService.validateGuest(req.body, false);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const { data: guest, error } = await supabase
+            .from('guests')
+            .update(guestService.toColumns(req.body))
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId)
+            .select()
+            .single();
+
+        if (error?.code === '23505') {
+            return res.status(409).json({ error: 'Another guest already has this email or phone number' });
+        }
+        if (error || !guest) {
+            return res.status(404).json({ error: 'Guest not found' });
+        }
+
+        res.json({ message: 'Guest updated successfully', guest });
+    } catch (error: any) {
+        console.error('Update guest error:', error);
+        res.status(500).json({ error: 'Failed to update guest' });
+    }
+});
+
+/**
+ * Delete a guest profile; their bookings, calls and emails are kept and unlinked
+ */
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { error } = await supabase
+            .from('guests')
+            .delete()
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId);
+
+        if (error) {
+            return res.status(500).json({ error: 'Failed to delete guest' });
+        }
+
+        res.json({ message: 'Guest deleted successfully' });
+    } catch (error: any) {
+        console.error('Delete guest error:', error);
+        res.status(500).json({ error: 'Failed to delete guest' });
+    }
+});
+
+export default router;
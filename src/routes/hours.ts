@@ -0,0 +1,157 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import supabase from '../config/supabase';
+import hoursService from '../services/hours.service';
+import vapiService from '../services/vapi.service';
+import { restaurantTimeZone, todayIn } from '../utils/datetime';
+
+const router = Router();
+router.use(authenticateToken);
+
+/**
+ * Get weekly hours and upcoming special hours
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+
+        const { data: restaurant, error } = await supabase
+            .from('restaurants')
+            .select('opening_hours, timezone')
+            .eq('id', restaurantId)
+            .single();
+
+        if (error || !restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        const { data: specialHours } = await supabase
+            .from('special_hours')
+            .select('*')
+            .eq('restaurant_id', restaurantId)
+            .gte('date', todayIn(restaurantTimeZone(restaurant)))
+            .order('date', { ascending: true });
+
+        res.json({
+            weekly: hoursService.parseWeeklyHours(restaurant.opening_hours),
+            specialHours: specialHours || []
+        });
+    } catch (error: any) {
+        console.error('Get hours error:', error);
+        res.status(500).json({ error: 'Failed to fetch opening hours' });
+    }
+});
+
+/**
+ * Replace weekly hours and service periods
+ */
+router.put('/weekly', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { weekly } = req.body;
+
+        const validationError = hoursService.validateWeeklyHours(weekly);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const { data: restaurant, error } = await supabase
+            .from('restaurants')
+            .update({ opening_hours: weekly })
+            .eq('id', restaurantId)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error:', error);
+            return res.status(500).json({ error: 'Failed to update opening hours' });
+        }
+
+        // Keep the assistant's prompt in sync with the new hours
+        if (restaurant.vapi_assistant_id) {
+            try {
+                await vapiService.updateAssistant(restaurant.vapi_assistant_id, restaurant);
+            } catch (vapiError) {
+                console.error('VAPI update error:', vapiError);
+            }
+        }
+
+        res.json({
+            message: 'Opening hours updated successfully',
+            weekly: hoursService.parseWeeklyHours(restaurant.opening_hours)
+        });
+    } catch (error: any) {
+        console.error('Update hours error:', error);
+        res.status(500).json({ error: 'Failed to update opening hours' });
+    }
+});
+
+/**
+ * Add or replace special hours (closure or holiday hours) for a date
+ */
+router.post('/special', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { date, isClosed, servicePeriods, note } = req.body;
+
+        if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            return res.status(400).json({ error: 'Date in YYYY-MM-DD format is required' });
+        }
+
+        if (!isClosed) {
+            const validationError = hoursService.validatePeriods(servicePeriods);
+            if (validationError) {
+                return res.status(400).json({ error: validationError });
+            }
+        }
+
+        const { data: specialHours, error } = await supabase
+            .from('special_hours')
+            .upsert({
+                restaurant_id: restaurantId,
+                date,
+                is_closed: !!isClosed,
+                service_periods: isClosed ? null : servicePeriods,
+                note
+            }, { onConflict: 'restaurant_id,date' })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error:', error);
+            return res.status(500).json({ error: 'Failed to save special hours' });
+        }
+
+        res.status(201).json({ message: 'Special hours saved successfully', specialHours });
+    } catch (error: any) {
+        console.error('Save special hours error:', error);
+        res.status(500).json({ error: 'Failed to save special hours' });
+    }
+});
+
+/**
+ * Delete special hours
+ */
+router.delete('/special/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { error } = await supabase
+            .from('special_hours')
+            .delete()
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId);
+
+        if (error) {
+            return res.status(500).json({ error: 'Failed to delete special hours' });
+        }
+
+        res.json({ message: 'Special hours deleted successfully' });
+    } catch (error: any) {
+        console.error('Delete special hours error:', error);
+        res.status(500).json({ error: 'Failed to delete special hours' });
+    }
+});
+
+export default router;
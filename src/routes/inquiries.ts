@@ -0,0 +1,259 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import supabase from '../config/supabase';
+import inquiryService from '../services/inquiry.service';
+
+const router = Router();
+
+/**
+ * Accept a counter-proposal (public, reached from the proposal email)
+ */
+router.post('/accept', async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            return res.status(400).json({ error: 'Proposal token required' });
+        }
+
+        const inquiry = await inquiryService.findByProposalToken(token);
+        if (!inquiry) {
+            return res.status(404).json({ error: 'Proposal not found' });
+        }
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', inquiry.restaurant_id)
+            .single();
+
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        const result = await inquiryService.acceptProposal(restaurant, inquiry);
+        if (!result.success) {
+            return res.status(409).json({ error: result.error });
+        }
+
+        res.status(201).json({
+            message: 'Proposal accepted, your booking is confirmed',
+            booking: result.booking,
+            confirmationNumber: result.booking.confirmation_number
+        });
+    } catch (error: any) {
+        console.error('Accept inquiry proposal error:', error);
+        res.status(500).json({ error: 'Failed to accept proposal' });
+    }
+});
+
+// Everything else requires authentication
+router.use(authenticateToken);
+
+/**
+ * Load an inquiry and its restaurant for a staff response
+ */
+async function loadInquiry(id: string, restaurantId: string) {
+    const { data: inquiry } = await supabase
+        .from('booking_inquiries')
+        .select('*')
+        .eq('id', id)
+        .eq('restaurant_id', restaurantId)
+        .single();
+
+    if (!inquiry) return null;
+
+    const { data: restaurant } = await supabase
+        .from('restaurants')
+        .select('*')
+        .eq('id', restaurantId)
+        .single();
+
+    return { inquiry, restaurant };
+}
+
+/**
+ * Get large-party and private dining requests
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { status, limit = 50, offset = 0 } = req.query;
+
+        let query = supabase
+            .from('booking_inquiries')
+            .select('*', { count: 'exact' })
+            .eq('restaurant_id', restaurantId)
+            .order('requested_date', { ascending: true })
+            .range(Number(offset), Number(offset) + Number(limit) - 1);
+
+        if (status) {
+            query = query.eq('status', status);
+        }
+
+        const { data: inquiries, error, count } = await query;
+
+        if (error) {
+            console.error('Database error:', error);
+            return res.status(500).json({ error: 'Failed to fetch requests' });
+        }
+
+        res.json({ inquiries, total: count, limit: Number(limit), offset: Number(offset) });
+    } catch (error: any) {
+        console.error('Get inquiries error:', error);
+        res.status(500).json({ error: 'Failed to fetch requests' });
+    }
+});
+
+/**
+ * Get single request
+ */
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const { data: inquiry, error } = await supabase
+            .from('booking_inquiries')
+            .select('*')
+            .eq('id', req.params.id)
+            .eq('restaurant_id', req.user!.restaurantId)
+            .single();
+
+        if (error || !inquiry) {
+            return res.status(404).json({ error: 'Request not found' });
+        }
+
+        res.json({ inquiry });
+    } catch (error: any) {
+        console.error('Get inquiry error:', error);
+        res.status(500).json({ error: 'Failed to fetch request' });
+    }
+});
+
+/**
+ * Capture a request taken by staff
+ */
+router.post('/', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { guestName, guestEmail, guestPhone, date, time, partySize, occasion, budget, menuPreferences, notes } = req.body;
+
+        if (!guestName || !date || !time || !partySize) {
+            return res.status(400).json({ error: 'Missing required fields' });
+        }
+
+        if (!guestEmail && !guestPhone) {
+            return res.status(400).json({ error: 'An email or phone number is required' });
+        }
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
+
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        const inquiry = await inquiryService.createInquiry(restaurant, {
+            guestName,
+            guestEmail,
+            guestPhone,
+            date,
+            time,
+            partySize,
+            occasion,
+            budget,
+            menuPreferences,
+            notes,
+            source: 'manual'
+        });
+
+        res.status(201).json({ message: 'Request created successfully', inquiry });
+    } catch (error: any) {
+        console.error('Create inquiry error:', error);
+        res.status(500).json({ error: 'Failed to create request' });
+    }
+});
+
+/**
+ * Approve a request, creating the booking
+ */
+router.post('/:id/approve', async (req: AuthRequest, res: Response) => {
+    try {
+        const loaded = await loadInquiry(req.params.id, req.user!.restaurantId);
+        if (!loaded) {
+            return res.status(404).json({ error: 'Request not found' });
+        }
+
+        const { date, time, partySize, tableIds, message } = req.body;
+        if (tableIds !== undefined && (!Array.isArray(tableIds) || tableIds.some((id: any) => typeof id !== 'string'))) {
+            return res.status(400).json({ error: 'tableIds must be a list of table ids' });
+        }
+
+        const result = await inquiryService.approve(loaded.restaurant, loaded.inquiry, { date, time, partySize, tableIds, message }, {
+            type: 'staff',
+            id: req.user!.id
+        });
+
+        if (!result.success) {
+            return res.status(409).json({ error: result.error });
+        }
+
+        res.json({ message: 'Request approved', inquiry: result.inquiry, booking: result.booking });
+    } catch (error: any) {
+        console.error('Approve inquiry error:', error);
+        res.status(500).json({ error: 'Failed to approve request' });
+    }
+});
+
+/**
+ * Decline a request
+ */
+router.post('/:id/decline', async (req: AuthRequest, res: Response) => {
+    try {
+        const loaded = await loadInquiry(req.params.id, req.user!.restaurantId);
+        if (!loaded) {
+            return res.status(404).json({ error: 'Request not found' });
+        }
+
+        const result = await inquiryService.decline(loaded.restaurant, loaded.inquiry, req.body.message);
+        if (!result.success) {
+            return res.status(409).json({ error: result.error });
+        }
+
+        res.json({ message: 'Request declined', inquiry: result.inquiry });
+    } catch (error: any) {
+        console.error('Decline inquiry error:', error);
+        res.status(500).json({ error: 'Failed to decline request' });
+    }
+});
+
+/**
+ * Propose a different date, time or party size
+ */
+router.post('/:id/counter', async (req: AuthRequest, res: Response) => {
+    try {
+        const { date, time, partySize, message } = req.body;
+
+        if (!date && !time && !partySize) {
+            return res.status(400).json({ error: 'Propose a new date, time or party size' });
+        }
+
+        const loaded = await loadInquiry(req.params.id, req.user!.restaurantId);
+        if (!loaded) {
+            return res.status(404).json({ error: 'Request not found' });
+        }
+
+        const result = await inquiryService.counter(loaded.restaurant, loaded.inquiry, { date, time, partySize, message });
+        if (!result.success) {
+            return res.status(409).json({ error: result.error });
+        }
+
+        res.json({ message: 'Proposal sent', inquiry: result.inquiry });
+    } catch (error: any) {
+        console.error('Counter inquiry error:', error);
+        res.status(500).json({ error: 'Failed to send proposal' });
+    }
+});
+
+export default router;
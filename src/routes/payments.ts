@@ -0,0 +1,153 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import supabase from '../config/supabase';
+import paymentService from '../services/payment.service';
+import bookingService from '../services/booking.service';
+import { BookingActor } from '../services/audit.service';
+import availabilityService from '../services/availability.service';
+import { holdsTable } from '../utils/bookingStatus';
+
+const router = Router();
+
+/**
+ * Confirm the booking behind a payment once it has been paid. A hold that lapsed before payment
+ * is only confirmed if the table is still free; otherwise the booking is cancelled and refunded.
+ * Returns the booking's resulting status.
+ */
+async function confirmPaidBooking(payment: any): Promise<string | null> {
+    const { data: booking } = await supabase
+        .from('bookings')
+        .select('*')
+        .eq('id', payment.booking_id)
+        .single();
+
+    if (!booking) return null;
+
+    // Paid after the booking was already cancelled; cancelling closed this payment, so settling the booking would skip it
+    if (booking.status === 'cancelled') {
+        await paymentService.refundPayment(payment);
+        return booking.status;
+    }
+    if (booking.status !== 'pending_payment') return booking.status;
+
+    const { data: restaurant } = await supabase
+        .from('restaurants')
+        .select('*')
+        .eq('id', booking.restaurant_id)
+        .single();
+
+    const actor: BookingActor = { type: 'guest', id: payment.provider_payment_id };
+
+    if (!holdsTable(booking)) {
+        const availability = await availabilityService.checkAvailability(restaurant, {
+            date: booking.booking_date,
+            time: booking.booking_time,
+            partySize: booking.party_size,
+            excludeBookingId: booking.id,
+            ignoreBookingWindow: true
+        });
+        if (!availability.available) {
+            const cancelled = await bookingService.transitionBooking(restaurant, booking, 'cancelled', { type: 'system' }, { waivePenalty: true });
+            return cancelled.booking?.status || booking.status;
+        }
+        if (availability.tableIds) {
+            await supabase.from('bookings').update({ table_ids: availability.tableIds }).eq('id', booking.id);
+        }
+    }
+
+    const confirmed = await bookingService.transitionBooking(restaurant, booking, 'confirmed', actor);
+    return confirmed.booking?.status || booking.status;
+}
+
+/**
+ * Payment provider webhook
+ */
+router.post('/webhook', async (req: Request, res: Response) => {
+    try {
+        const rawBody = (req as any).rawBody ?? JSON.stringify(req.body ?? {});
+        if (!paymentService.provider.verifyWebhook(rawBody, req.headers)) {
+            return res.status(401).json({ error: 'Invalid webhook signature' });
+        }
+
+        const event = paymentService.provider.parseWebhook(req.body, req.headers);
+        if (!event) {
+            return res.status(400).json({ error: 'Invalid webhook payload' });
+        }
+
+        if (!event.succeeded) {
+            await paymentService.markFailed(event.providerPaymentId);
+            return res.json({ received: true });
+        }
+
+        const payment = await paymentService.markSucceeded(event.providerPaymentId);
+        if (!payment) {
+            return res.status(404).json({ error: 'Payment not found' });
+        }
+
+        await confirmPaidBooking(payment);
+
+        res.json({ received: true });
+    } catch (error: any) {
+        console.error('Payment webhook error:', error);
+        res.status(500).json({ error: 'Failed to process payment webhook' });
+    }
+});
+
+/**
+ * Payment link for the local fake provider, paying is a single click
+ */
+router.get('/fake/:paymentId/pay', async (req: Request, res: Response) => {
+    try {
+        if (paymentService.provider.name !== 'fake') {
+            return res.status(404).json({ error: 'Not found' });
+        }
+
+        const payment = await paymentService.markSucceeded(req.params.paymentId);
+        if (!payment) {
+            return res.status(404).json({ error: 'Payment not found' });
+        }
+
+        const bookingStatus = await confirmPaidBooking(payment);
+
+        res.json({
+            message: bookingStatus === 'cancelled'
+                ? 'Payment received too late, the table is no longer available and your payment will be refunded'
+                : 'Payment received, your booking is confirmed',
+            status: payment.status,
+            bookingStatus
+        });
+    } catch (error: any) {
+        console.error('Fake payment error:', error);
+        res.status(500).json({ error: 'Failed to process payment' });
+    }
+});
+
+/**
+ * Get payments for a booking
+ */
+router.get('/booking/:bookingId', authenticateToken, async (req: AuthRequest, res: Response) => {
+    try {
+        const { bookingId } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { data: booking } = await supabase
+            .from('bookings')
+            .select('id')
+            .eq('id', bookingId)
+            .eq('restaurant_id', restaurantId)
+            .single();
+
+        if (!booking) {
+            return res.status(404).json({ error: 'Booking not found' });
+        }
+
+        const payments = await paymentService.getBookingPayments(bookingId);
+
+        res.json({ payments });
+    } catch (error: any) {
+        console.error('Get booking payments error:', error);
+        res.status(500).json({ error: 'Failed to fetch payments' });
+    }
+});
+
+export default router;
@@ -0,0 +1,364 @@
+import { Router, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import supabase from '../config/supabase';
+import hoursService from '../services/hours.service';
+import availabilityService from '../services/availability.service';
+import bookingService from '../services/booking.service';
+import paymentService from '../services/payment.service';
+import captchaService from '../services/captcha.service';
+import manageLinkService from '../services/manageLink.service';
+import cancellationPolicyService from '../services/cancellationPolicy.service';
+import { isValidDate, isValidTime, normalizeDate, normalizeTime, restaurantTimeZone } from '../utils/datetime';
+import { EDITABLE_BOOKING_STATUSES } from '../utils/bookingStatus';
+import { requestIdempotencyKey } from '../utils/idempotency';
+
+const router = Router();
+
+// Stricter per-IP limit for creating bookings from the widget
+const bookingLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: Number(process.env.PUBLIC_BOOKING_LIMIT) || 10,
+    message: { error: 'Too many booking attempts, please try again later' }
+});
+
+/**
+ * Find a restaurant by its public slug
+ */
+async function findRestaurant(slug: string) {
+    const { data: restaurant } = await supabase
+        .from('restaurants')
+        .select('*')
+        .eq('slug', slug.toLowerCase())
+        .single();
+
+    return restaurant || null;
+}
+
+/**
+ * Load the booking and restaurant behind a manage link token
+ */
+async function findManagedBooking(token: string) {
+    const bookingId = manageLinkService.verifyToken(token);
+    if (!bookingId) return null;
+
+    const { data: booking } = await supabase
+        .from('bookings')
+        .select('*')
+        .eq('id', bookingId)
+        .single();
+
+    if (!booking) return null;
+
+    const { data: restaurant } = await supabase
+        .from('restaurants')
+        .select('*')
+        .eq('id', booking.restaurant_id)
+        .single();
+
+    return { booking, restaurant };
+}
+
+/**
+ * Guest-facing view of a booking
+ */
+function toGuestBooking(booking: any, restaurant: any) {
+    return {
+        confirmationNumber: booking.confirmation_number,
+        restaurantName: restaurant?.name,
+        restaurantSlug: restaurant?.slug,
+        guestName: booking.guest_name,
+        date: booking.booking_date,
+        time: normalizeTime(booking.booking_time),
+        partySize: booking.party_size,
+        specialRequests: booking.special_requests,
+        status: booking.status,
+        canModify: EDITABLE_BOOKING_STATUSES.includes(booking.status),
+        canCancel: EDITABLE_BOOKING_STATUSES.includes(booking.status) || booking.status === 'pending_payment'
+    };
+}
+
+/**
+ * Get public restaurant info for the booking widget
+ */
+router.get('/restaurants/:slug', async (req: Request, res: Response) => {
+    try {
+        const restaurant = await findRestaurant(req.params.slug);
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        const { data: tables } = await supabase
+            .from('tables')
+            .select('area')
+            .eq('restaurant_id', restaurant.id)
+            .eq('is_active', true);
+
+        const areas = [...new Set((tables || []).map(t => t.area).filter(Boolean))];
+
+        res.json({
+            restaurant: {
+                slug: restaurant.slug,
+                name: restaurant.name,
+                cuisineType: restaurant.cuisine_type,
+                address: restaurant.address,
+                phone: restaurant.phone,
+                openingHours: hoursService.formatWeeklyHours(restaurant.opening_hours),
+                maxPartySize: restaurant.max_party_size || 10,
+                timezone: restaurantTimeZone(restaurant),
+                cancellationPolicy: cancellationPolicyService.describePolicy(restaurant),
+                areas
+            },
+            captchaRequired: captchaService.isEnabled()
+        });
+    } catch (error: any) {
+        console.error('Get public restaurant error:', error);
+        res.status(500).json({ error: 'Failed to fetch restaurant' });
+    }
+});
+
+/**
+ * Get bookable times for a date and party size
+ */
+router.get('/restaurants/:slug/availability', async (req: Request, res: Response) => {
+    try {
+        const date = normalizeDate(req.query.date as string);
+        const partySize = Number(req.query.partySize);
+        const area = req.query.area as string | undefined;
+
+        if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !partySize || partySize < 1) {
+            return res.status(400).json({ error: 'A valid date and party size are required' });
+        }
+
+        const restaurant = await findRestaurant(req.params.slug);
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        if (partySize > (restaurant.max_party_size || 10)) {
+            return res.json({
+                date,
+                partySize,
+                times: [],
+                message: `Online bookings are limited to ${restaurant.max_party_size || 10} guests. Please contact the restaurant for larger parties.`
+            });
+        }
+
+        const times = await availabilityService.findAvailableTimes(restaurant, date, partySize, { area });
+
+        res.json({ date, partySize, times });
+    } catch (error: any) {
+        console.error('Get public availability error:', error);
+        res.status(500).json({ error: 'Failed to fetch availability' });
+    }
+});
+
+/**
+ * Create a booking from the booking widget
+ */
+router.post('/restaurants/:slug/bookings', bookingLimiter, async (req: Request, res: Response) => {
+    try {
+        const {
+            guestName,
+            guestEmail,
+            guestPhone,
+            date,
+            time,
+            partySize,
+            specialRequests,
+            area,
+            captchaToken
+        } = req.body;
+
+        // Validation
+        if (!guestName || !guestEmail || !date || !time || !partySize) {
+            return res.status(400).json({ error: 'Missing required fields' });
+        }
+
+        if (!Number.isInteger(Number(partySize)) || Number(partySize) < 1) {
+            return res.status(400).json({ error: 'Invalid party size' });
+        }
+
+        if (!isValidDate(normalizeDate(date))) {
+            return res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
+        }
+
+        if (!isValidTime(normalizeTime(time))) {
+            return res.status(400).json({ error: 'Time must be HH:MM' });
+        }
+
+        const captchaValid = await captchaService.verify(captchaToken, req.ip);
+        if (!captchaValid) {
+            return res.status(400).json({ error: 'Captcha verification failed' });
+        }
+
+        const restaurant = await findRestaurant(req.params.slug);
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        const result = await bookingService.createBooking(restaurant, {
+            guestName,
+            guestEmail,
+            guestPhone,
+            date: normalizeDate(date)!,
+            time,
+            partySize: Number(partySize),
+            specialRequests,
+            area
+        }, {
+            source: 'web',
+            actor: { type: 'guest' },
+            // Tied to the guest's email so a reused key can never hand back someone else's booking
+            idempotencyKey: requestIdempotencyKey(req) && `${requestIdempotencyKey(req)}:${String(guestEmail).toLowerCase()}`
+        });
+
+        if (!result.success) {
+            const availability = result.availability;
+            if (availability && !availability.available) {
+                return res.status(409).json({
+                    error: 'No tables available for the requested time',
+                    reason: availability.reason,
+                    message: availability.message,
+                    suggestions: availability.suggestions
+                });
+            }
+            return res.status(500).json({ error: 'Failed to create booking' });
+        }
+
+        const booking = result.booking;
+
+        if (result.duplicate) {
+            res.set('Idempotent-Replayed', 'true');
+        }
+
+        res.status(201).json({
+            message: booking.status === 'pending_payment'
+                ? 'Booking held, please complete payment to confirm'
+                : 'Booking created successfully',
+            confirmationNumber: booking.confirmation_number,
+            booking: toGuestBooking(booking, restaurant),
+            manageUrl: manageLinkService.createUrl(booking, restaurantTimeZone(restaurant)),
+            payment: result.payment && {
+                kind: result.payment.kind,
+                amount: paymentService.formatAmount(result.payment.amount_cents, result.payment.currency),
+                url: result.payment.payment_url,
+                expiresAt: booking.payment_expires_at
+            }
+        });
+    } catch (error: any) {
+        console.error('Create public booking error:', error);
+        res.status(500).json({ error: 'Failed to create booking' });
+    }
+});
+
+/**
+ * View a booking from a manage link
+ */
+router.get('/bookings/manage/:token', async (req: Request, res: Response) => {
+    try {
+        const managed = await findManagedBooking(req.params.token);
+        if (!managed) {
+            return res.status(404).json({ error: 'This link is invalid or has expired' });
+        }
+
+        const guestBooking = toGuestBooking(managed.booking, managed.restaurant);
+
+        // Show the guest what cancelling now would cost before they confirm
+        const cancellation = guestBooking.canCancel
+            ? await cancellationPolicyService.assessCancellation(managed.restaurant, managed.booking)
+            : null;
+
+        res.json({
+            booking: guestBooking,
+            cancellation: cancellation && {
+                lateCancel: cancellation.lateCancel,
+                message: cancellation.message
+            }
+        });
+    } catch (error: any) {
+        console.error('Get managed booking error:', error);
+        res.status(500).json({ error: 'Failed to fetch booking' });
+    }
+});
+
+/**
+ * Reschedule a booking from a manage link
+ */
+router.put('/bookings/manage/:token', async (req: Request, res: Response) => {
+    try {
+        const { date, time, partySize, specialRequests } = req.body;
+
+        const managed = await findManagedBooking(req.params.token);
+        if (!managed) {
+            return res.status(404).json({ error: 'This link is invalid or has expired' });
+        }
+
+        const updates: any = {};
+        if (date) updates.booking_date = normalizeDate(date);
+        if (time) updates.booking_time = time;
+        if (partySize) updates.party_size = Number(partySize);
+        if (specialRequests !== undefined) updates.special_requests = specialRequests;
+
+        if (Object.keys(updates).length === 0) {
+            return res.status(400).json({ error: 'Nothing to update' });
+        }
+
+        // Same checks and calendar, HubSpot and restaurant notifications as staff edits
+        const result = await bookingService.updateBooking(managed.restaurant, managed.booking, updates, { type: 'guest' });
+
+        if (!result.success) {
+            if (result.notEditable) {
+                return res.status(409).json({ error: 'This booking can no longer be changed online' });
+            }
+            const availability = result.availability;
+            if (availability && !availability.available) {
+                return res.status(409).json({
+                    error: 'No tables available for the requested time',
+                    reason: availability.reason,
+                    message: availability.message,
+                    suggestions: availability.suggestions
+                });
+            }
+            return res.status(500).json({ error: 'Failed to update booking' });
+        }
+
+        res.json({
+            message: 'Booking updated successfully',
+            booking: toGuestBooking(result.booking, managed.restaurant),
+            // The link expiry follows the booking date, so hand out a fresh one
+            manageUrl: manageLinkService.createUrl(result.booking, restaurantTimeZone(managed.restaurant))
+        });
+    } catch (error: any) {
+        console.error('Update managed booking error:', error);
+        res.status(500).json({ error: 'Failed to update booking' });
+    }
+});
+
+/**
+ * Cancel a booking from a manage link
+ */
+router.post('/bookings/manage/:token/cancel', async (req: Request, res: Response) => {
+    try {
+        const managed = await findManagedBooking(req.params.token);
+        if (!managed) {
+            return res.status(404).json({ error: 'This link is invalid or has expired' });
+        }
+
+        const result = await bookingService.cancelBooking(managed.restaurant, managed.booking, { type: 'guest' });
+        if (!result.success) {
+            return res.status(result.invalidTransition ? 409 : 500).json({
+                error: result.invalidTransition ? 'This booking can no longer be cancelled' : 'Failed to cancel booking'
+            });
+        }
+
+        res.json({
+            message: result.policy?.lateCancel ? `Booking cancelled. ${result.policy.message}` : 'Booking cancelled successfully',
+            booking: toGuestBooking(result.booking, managed.restaurant)
+        });
+    } catch (error: any) {
+        console.error('Cancel managed booking error:', error);
+        res.status(500).json({ error: 'Failed to cancel booking' });
+    }
+});
+
+export default router;
@@ -2,6 +2,12 @@ import { Router, Response } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import supabase from '../config/supabase';
 import vapiService from '../services/vapi.service';
+import hoursService from '../services/hours.service';
+import availabilityService from '../services/availability.service';
+import paymentService from '../services/payment.service';
+import cancellationPolicyService from '../services/cancellationPolicy.service';
+import { isValidSlug } from '../utils/slug';
+import { isValidTimeZone } from '../utils/datetime';
 
 const router = Router();
 router.use(authenticateToken);
@@ -48,6 +54,81 @@ router.put('/', async (req: AuthRequest, res: Response) => {
         delete updates.verification_token;
         delete updates.vapi_phone_id;
         delete updates.vapi_assistant_id;
+        delete updates.calendar_feed_token;
+        delete updates.calendar_feed_options; // Validated and saved through /api/calendar/feed
+
+        // Structured opening hours must be valid before they drive availability
+        if (updates.opening_hours && typeof updates.opening_hours === 'object') {
+            const validationError = hoursService.validateWeeklyHours(updates.opening_hours);
+            if (validationError) {
+                return res.status(400).json({ error: validationError });
+            }
+        }
+
+        if (updates.turn_time_rules) {
+            const validationError = availabilityService.validateTurnTimeRules(updates.turn_time_rules);
+            if (validationError) {
+                return res.status(400).json({ error: validationError });
+            }
+        }
+
+        if (updates.pacing_rules) {
+            const validationError = availabilityService.validatePacingRules(updates.pacing_rules);
+            if (validationError) {
+                return res.status(400).json({ error: validationError });
+            }
+        }
+
+        const serviceError = availabilityService.validateServiceSettings(updates);
+        if (serviceError) {
+            return res.status(400).json({ error: serviceError });
+        }
+
+        const windowError = availabilityService.validateBookingWindow(updates);
+        if (windowError) {
+            return res.status(400).json({ error: windowError });
+        }
+
+        // null goes back to DEFAULT_TIMEZONE
+        if (updates.timezone !== undefined && updates.timezone !== null && !isValidTimeZone(updates.timezone)) {
+            return res.status(400).json({ error: 'Timezone must be an IANA name such as "Europe/London"' });
+        }
+
+        if (updates.slug !== undefined) {
+            updates.slug = String(updates.slug).toLowerCase();
+            if (!isValidSlug(updates.slug)) {
+                return res.status(400).json({ error: 'Slug may only contain lowercase letters, numbers and hyphens' });
+            }
+
+            const { data: taken } = await supabase
+                .from('restaurants')
+                .select('id')
+                .eq('slug', updates.slug)
+                .neq('id', restaurantId)
+                .maybeSingle();
+
+            if (taken) {
+                return res.status(409).json({ error: 'This booking page address is already taken' });
+            }
+        }
+
+        if (updates.cancellation_policy) {
+            const validationError = cancellationPolicyService.validatePolicy(updates.cancellation_policy);
+            if (validationError) {
+                return res.status(400).json({ error: validationError });
+            }
+            // Stored as text so free-form wording keeps working
+            if (typeof updates.cancellation_policy === 'object') {
+                updates.cancellation_policy = JSON.stringify(updates.cancellation_policy);
+            }
+        }
+
+        if (updates.deposit_rules) {
+            const validationError = paymentService.validateDepositRules(updates.deposit_rules);
+            if (validationError) {
+                return res.status(400).json({ error: validationError });
+            }
+        }
 
         const { data: restaurant, error } = await supabase
             .from('restaurants')
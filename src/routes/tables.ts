@@ -0,0 +1,358 @@
+import { Router, Response } from 'express';
+import { authenticateStreamToken, authenticateToken, AuthRequest, createStreamToken } from '../middleware/auth';
+import supabase from '../config/supabase';
+import seatingService from '../services/seating.service';
+import { subscribeFloorChanges } from '../utils/floorEvents';
+
+const router = Router();
+
+/**
+ * Live floor as server-sent events: the full floor on connect and after every change.
+ * EventSource can't send an Authorization header, so this takes a token from /floor/stream-token
+ * as ?token=; it is checked on connect, and a reconnect needs a fresh one.
+ */
+router.get('/floor/stream', authenticateStreamToken, async (req: AuthRequest, res: Response) => {
+    const restaurantId = req.user!.restaurantId;
+
+    let restaurant: any;
+    try {
+        const { data } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
+        restaurant = data;
+    } catch (error: any) {
+        console.error('Floor stream error:', error);
+        return res.status(500).json({ error: 'Failed to open floor stream' });
+    }
+
+    if (!restaurant) {
+        return res.status(404).json({ error: 'Restaurant not found' });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    let pending: NodeJS.Timeout | null = null;
+    const send = async () => {
+        pending = null;
+        try {
+            const floor = await seatingService.getFloor(restaurant);
+            res.write(`event: floor\ndata: ${JSON.stringify(floor)}\n\n`);
+        } catch (error: any) {
+            console.error('Floor stream error:', error);
+        }
+    };
+
+    // Several changes in quick succession (e.g. seat then assign) send one update
+    const unsubscribe = subscribeFloorChanges(restaurantId, () => {
+        if (!pending) pending = setTimeout(send, 250);
+    });
+    // Refresh every minute anyway so reserved and overrunning tables move with the clock
+    const heartbeat = setInterval(send, 60000);
+
+    res.on('close', () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        if (pending) clearTimeout(pending);
+    });
+
+    await send();
+});
+
+router.use(authenticateToken);
+
+/**
+ * Get table combinations
+ */
+router.get('/combinations', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+
+        const { data: combinations, error } = await supabase
+            .from('table_combinations')
+            .select('*')
+            .eq('restaurant_id', restaurantId)
+            .order('name', { ascending: true });
+
+        if (error) {
+            return res.status(500).json({ error: 'Failed to fetch table combinations' });
+        }
+
+        res.json({ combinations });
+    } catch (error: any) {
+        console.error('Get table combinations error:', error);
+        res.status(500).json({ error: 'Failed to fetch table combinations' });
+    }
+});
+
+/**
+ * Create table combination
+ */
+router.post('/combinations', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { name, tableIds, minSeats, maxSeats } = req.body;
+
+        if (!name || !Array.isArray(tableIds) || tableIds.length < 2 || !maxSeats) {
+            return res.status(400).json({ error: 'A name, at least two tables and max seats are required' });
+        }
+
+        if (new Set(tableIds).size !== tableIds.length) {
+            return res.status(400).json({ error: 'A table can only appear once in a combination' });
+        }
+
+        if ((minSeats || 1) > maxSeats) {
+            return res.status(400).json({ error: 'Min seats cannot exceed max seats' });
+        }
+
+        // Make sure every table belongs to this restaurant
+        const { data: tables } = await supabase
+            .from('tables')
+            .select('id')
+            .eq('restaurant_id', restaurantId)
+            .in('id', tableIds);
+
+        if (!tables || tables.length !== tableIds.length) {
+            return res.status(400).json({ error: 'Unknown table in combination' });
+        }
+
+        const { data: combination, error } = await supabase
+            .from('table_combinations')
+            .insert({
+                restaurant_id: restaurantId,
+                name,
+                table_ids: tableIds,
+                min_seats: minSeats || 1,
+                max_seats: maxSeats
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error:', error);
+            return res.status(500).json({ error: 'Failed to create table combination' });
+        }
+
+        res.status(201).json({ message: 'Table combination created successfully', combination });
+    } catch (error: any) {
+        console.error('Create table combination error:', error);
+        res.status(500).json({ error: 'Failed to create table combination' });
+    }
+});
+
+/**
+ * Delete table combination
+ */
+router.delete('/combinations/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { error } = await supabase
+            .from('table_combinations')
+            .delete()
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId);
+
+        if (error) {
+            return res.status(500).json({ error: 'Failed to delete table combination' });
+        }
+
+        res.json({ message: 'Table combination deleted successfully' });
+    } catch (error: any) {
+        console.error('Delete table combination error:', error);
+        res.status(500).json({ error: 'Failed to delete table combination' });
+    }
+});
+
+/**
+ * Day view of the floor: each table's live status and its bookings for the day
+ */
+router.get('/floor', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { date } = req.query;
+
+        if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date as string)) {
+            return res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
+        }
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', restaurantId)
+            .single();
+
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        res.json(await seatingService.getFloor(restaurant, date as string | undefined));
+    } catch (error: any) {
+        console.error('Get floor error:', error);
+        res.status(500).json({ error: 'Failed to fetch floor' });
+    }
+});
+
+/**
+ * Token for opening /floor/stream
+ */
+router.post('/floor/stream-token', (req: AuthRequest, res: Response) => {
+    res.json(createStreamToken(req.user!));
+});
+
+/**
+ * Get all tables for restaurant
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { area } = req.query;
+
+        let query = supabase
+            .from('tables')
+            .select('*')
+            .eq('restaurant_id', restaurantId)
+            .order('area', { ascending: true })
+            .order('name', { ascending: true });
+
+        if (area) {
+            query = query.eq('area', area);
+        }
+
+        const { data: tables, error } = await query;
+
+        if (error) {
+            return res.status(500).json({ error: 'Failed to fetch tables' });
+        }
+
+        res.json({ tables });
+    } catch (error: any) {
+        console.error('Get tables error:', error);
+        res.status(500).json({ error: 'Failed to fetch tables' });
+    }
+});
+
+/**
+ * Create table
+ */
+router.post('/', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { name, area, minSeats, maxSeats } = req.body;
+
+        if (!name || !maxSeats) {
+            return res.status(400).json({ error: 'Missing required fields' });
+        }
+
+        if ((minSeats || 1) > maxSeats) {
+            return res.status(400).json({ error: 'Min seats cannot exceed max seats' });
+        }
+
+        const { data: table, error } = await supabase
+            .from('tables')
+            .insert({
+                restaurant_id: restaurantId,
+                name,
+                area: area || 'main',
+                min_seats: minSeats || 1,
+                max_seats: maxSeats
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error:', error);
+            return res.status(500).json({ error: 'Failed to create table' });
+        }
+
+        res.status(201).json({ message: 'Table created successfully', table });
+    } catch (error: any) {
+        console.error('Create table error:', error);
+        res.status(500).json({ error: 'Failed to create table' });
+    }
+});
+
+/**
+ * Update table
+ */
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+        const { name, area, minSeats, maxSeats, isActive } = req.body;
+
+        const updates: any = {};
+        if (name !== undefined) updates.name = name;
+        if (area !== undefined) updates.area = area;
+        if (minSeats !== undefined) updates.min_seats = minSeats;
+        if (maxSeats !== undefined) updates.max_seats = maxSeats;
+        if (isActive !== undefined) updates.is_active = isActive;
+
+        // Check seat limits against the stored value when only one of them changes
+        if (minSeats !== undefined || maxSeats !== undefined) {
+            const { data: existing } = await supabase
+                .from('tables')
+                .select('min_seats, max_seats')
+                .eq('id', id)
+                .eq('restaurant_id', restaurantId)
+                .single();
+
+            if (!existing) {
+                return res.status(404).json({ error: 'Table not found' });
+            }
+
+            if ((minSeats ?? existing.min_seats ?? 1) > (maxSeats ?? existing.max_seats)) {
+                return res.status(400).json({ error: 'Min seats cannot exceed max seats' });
+            }
+        }
+
+        const { data: table, error } = await supabase
+            .from('tables')
+            .update(updates)
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId)
+            .select()
+            .single();
+
+        if (error || !table) {
+            return res.status(404).json({ error: 'Table not found' });
+        }
+
+        res.json({ message: 'Table updated successfully', table });
+    } catch (error: any) {
+        console.error('Update table error:', error);
+        res.status(500).json({ error: 'Failed to update table' });
+    }
+});
+
+/**
+ * Delete table
+ */
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { error } = await supabase
+            .from('tables')
+            .delete()
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId);
+
+        if (error) {
+            return res.status(500).json({ error: 'Failed to delete table' });
+        }
+
+        res.json({ message: 'Table deleted successfully' });
+    } catch (error: any) {
+        console.error('Delete table error:', error);
+        res.status(500).json({ error: 'Failed to delete table' });
+    }
+});
+
+export default router;
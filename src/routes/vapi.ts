@@ -1,8 +1,17 @@
 import { Router, Request, Response } from 'express';
 import supabase from '../config/supabase';
-import emailService from '../services/email.service';
 import hubspotService from '../services/hubspot.service';
 import ragService from '../services/rag.service';
+import availabilityService from '../services/availability.service';
+import bookingService from '../services/booking.service';
+import cancellationPolicyService from '../services/cancellationPolicy.service';
+import waitlistService from '../services/waitlist.service';
+import paymentService from '../services/payment.service';
+import inquiryService from '../services/inquiry.service';
+import guestService from '../services/guest.service';
+import { normalizeTime, restaurantTimeZone, zonedTimeToUtc } from '../utils/datetime';
+import { toolCallIdempotencyKey } from '../utils/idempotency';
+import { formatConfirmationCodeForSpeech } from '../utils/confirmationCode';
 
 // Load Calendar Service dynamically to avoid circular deps if any
 const calendarService = require('../services/calendar.service').default;
@@ -76,6 +85,7 @@ async function handleCallStarted(event: any) {
     // Create call log
     await supabase.from('call_logs').insert({
         restaurant_id: restaurant.id,
+        guest_id: await guestService.linkGuest(restaurant.id, { phone: call.customer?.number }, false),
         call_id: call.id,
         caller_number: call.customer?.number,
         status: 'in_progress',
@@ -128,10 +138,19 @@ async function handleCallEnded(event: any) {
                 ended_at: new Date().toISOString()
             })
             .eq('call_id', callId)
-            .select('id, restaurant_id');
+            .select('id, restaurant_id, guest_id, caller_number');
 
         const hasUpdated = Array.isArray(updated) && updated.length > 0;
 
+        // A first-time caller's profile only exists once they booked during the call
+        for (const log of hasUpdated ? updated : []) {
+            if (log.guest_id || !log.caller_number) continue;
+            const guestId = await guestService.linkGuest(log.restaurant_id, { phone: log.caller_number }, false);
+            if (guestId) {
+                await supabase.from('call_logs').update({ guest_id: guestId }).eq('id', log.id);
+            }
+        }
+
         // If no existing log, create one now
         if (!hasUpdated) {
             let { data: restaurant } = await supabase
@@ -156,6 +175,7 @@ async function handleCallEnded(event: any) {
 
                 await supabase.from('call_logs').insert({
                     restaurant_id: restaurant.id,
+                    guest_id: await guestService.linkGuest(restaurant.id, { phone: call.customer?.number }, false),
                     call_id: callId,
                     caller_number: call.customer?.number,
                     status: 'completed',
@@ -209,7 +229,7 @@ async function handleFunctionCall(event: any, res: Response) {
         return res.json({ error: 'Restaurant not found' });
     }
 
-    return res.json(await executeFunctionCall(functionName, restaurant, parameters));
+    return res.json(await executeFunctionCall(functionName, restaurant, parameters, call?.id));
 }
 
 /**
@@ -272,7 +292,7 @@ async function handleToolCalls(event: any, res: Response) {
                 continue;
             }
 
-            const result = await executeFunctionCall(functionName, restaurant, params);
+            const result = await executeFunctionCall(functionName, restaurant, params, call?.id, tc.id);
             toolResults.push({
                 toolCallId: tc.id,
                 result
@@ -297,16 +317,20 @@ async function handleToolCalls(event: any, res: Response) {
 /**
  * Shared executor for function calls
  */
-async function executeFunctionCall(functionName: string, restaurant: any, parameters: any) {
+async function executeFunctionCall(functionName: string, restaurant: any, parameters: any, callId?: string, toolCallId?: string) {
     switch (functionName) {
         case 'check_availability':
             return await checkAvailability(restaurant.id, restaurant, parameters);
         case 'create_booking':
-            return await createBooking(restaurant.id, restaurant, parameters);
+            return await createBooking(restaurant.id, restaurant, parameters, callId, toolCallId);
         case 'update_booking':
-            return await updateBooking(restaurant.id, restaurant, parameters);
+            return await updateBooking(restaurant.id, restaurant, parameters, callId);
         case 'cancel_booking':
-            return await cancelBooking(restaurant.id, restaurant, parameters);
+            return await cancelBooking(restaurant.id, restaurant, parameters, callId);
+        case 'add_to_waitlist':
+            return await addToWaitlist(restaurant.id, restaurant, parameters);
+        case 'request_large_party':
+            return await requestLargeParty(restaurant.id, restaurant, parameters);
         case 'answer_question':
             return await answerQuestion(restaurant.id, restaurant, parameters);
         default:
@@ -318,60 +342,80 @@ async function executeFunctionCall(functionName: string, restaurant: any, parame
  * Check availability function
  */
 async function checkAvailability(restaurantId: string, restaurant: any, params: any) {
-    const { date, time, partySize } = params;
-    console.log(`🔍 Checking availability for Restaurant ${restaurantId}:`, { date, time, partySize });
+    const { date, time, partySize, area } = params;
+    console.log(`🔍 Checking availability for Restaurant ${restaurantId}:`, { date, time, partySize, area });
 
     try {
-        let isAvailable = false;
-        let suggestionMessage = '';
-        let googleChecked = false;
+        const normalizedTime = normalizeTime(time)!;
 
-        // 1. Check Google Calendar (Priority)
-        if (restaurant.google_calendar_tokens) {
+        // 1. Availability engine: hours, closures, pacing and the floor plan
+        const availability = await availabilityService.checkAvailability(restaurant, {
+            date,
+            time: normalizedTime,
+            partySize,
+            area
+        }, { includeAdjacentDays: true });
+        let isAvailable = availability.available;
+        let suggestionMessage = availability.message || '';
+        let suggestions = availability.suggestions || [];
+        let alternativeDays = availability.alternativeDays || [];
+
+        // 2. Google Calendar must also be free when connected
+        if (isAvailable && restaurant.google_calendar_tokens) {
             console.log('📅 Using Google Calendar for availability check...');
             try {
                 const tokens = JSON.parse(restaurant.google_calendar_tokens);
-                const startTime = new Date(`${date}T${time}:00`);
-                const endTime = new Date(startTime.getTime() + 60 * 60 * 1000); // Assume 1 hour default
+                const durationMinutes = availability.durationMinutes || 90;
+                const timeZone = restaurantTimeZone(restaurant);
+                const isFree = (slotDate: string, slotTime: string) => {
+                    const startTime = zonedTimeToUtc(slotDate, slotTime, timeZone);
+                    const endTime = new Date(startTime.getTime() + durationMinutes * 60 * 1000);
+                    return calendarService.checkAvailability(tokens, startTime, endTime);
+                };
 
                 // Check specific slot
-                isAvailable = await calendarService.checkAvailability(tokens, startTime, endTime);
-                googleChecked = true;
+                isAvailable = await isFree(date, normalizedTime);
 
                 if (!isAvailable) {
                     console.log('❌ Slot busy in Google Calendar. Finding alternatives...');
-                    const suggestions = await calendarService.findAvailableSlots(tokens, new Date(date));
+                    // Our own suggestions, keeping only those the calendar is also free for
+                    const local = await availabilityService.suggestTimes(restaurant, {
+                        date,
+                        time: normalizedTime,
+                        partySize,
+                        area
+                    }, { limit: 6, includeAdjacentDays: true });
+
+                    suggestions = [];
+                    for (const slot of local.times) {
+                        if (suggestions.length >= 3) break;
+                        if (await isFree(date, slot)) suggestions.push(slot);
+                    }
+
+                    alternativeDays = [];
+                    for (const slot of local.adjacentDays) {
+                        if (await isFree(slot.date, slot.time)) alternativeDays.push(slot);
+                    }
 
                     if (suggestions.length > 0) {
-                        const topSuggestions = suggestions.slice(0, 3).join(', ');
-                        suggestionMessage = `Sorry, that time is taken. However, we have availability at: ${topSuggestions}.`;
+                        suggestionMessage = `Sorry, that time is taken. However, we have availability at: ${suggestions.join(', ')}.`;
+                    } else if (alternativeDays.length > 0) {
+                        suggestionMessage = `Sorry, that time is taken. ${normalizedTime} is free on ${alternativeDays.map(s => s.date).join(' and ')}.`;
                     } else {
-                        suggestionMessage = `Sorry, we are fully booked on ${date}.`;
+                        suggestionMessage = `Sorry, we are fully booked around that time on ${date}.`;
                     }
                 }
             } catch (err) {
-                console.error('⚠️ Google Calendar check failed, falling back to local DB:', err);
-                // Fallback to local DB check logic below
+                console.error('⚠️ Google Calendar check failed, using local availability only:', err);
             }
         }
 
-        // 2. Fallback: Local Database Check (if GCal failed or not connected)
-        if (!googleChecked) {
-            const { data: bookings } = await supabase
-                .from('bookings')
-                .select('party_size')
-                .eq('restaurant_id', restaurantId)
-                .eq('booking_date', date)
-                .eq('booking_time', time)
-                .eq('status', 'confirmed');
-
-            const totalBooked = bookings?.reduce((sum, b) => sum + b.party_size, 0) || 0;
-            isAvailable = (restaurant.capacity || 50) - totalBooked >= partySize;
-        }
-
         // 3. Construct Result
         const result = {
             result: isAvailable ? 'available' : 'unavailable',
+            reason: isAvailable ? undefined : availability.reason,
+            suggestions: isAvailable ? undefined : suggestions,
+            alternativeDays: isAvailable || alternativeDays.length === 0 ? undefined : alternativeDays,
             message: isAvailable
                 ? `Yes, we have availability for ${partySize} guests on ${date} at ${time}.`
                 : (suggestionMessage || `Sorry, we don't have availability for ${partySize} guests at that time.`)
@@ -392,189 +436,98 @@ async function checkAvailability(restaurantId: string, restaurant: any, params:
 /**
  * Create booking function
  */
-async function createBooking(restaurantId: string, restaurant: any, params: any) {
-    const { guestName, guestEmail, guestPhone, date, time, partySize, specialRequests } = params;
-
-    const normalizedTime = normalizeTime(time);
-
-    const confirmationNumber = `TN-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
-
-    // 1. Create Booking in Database
-    const { data: booking, error } = await supabase
-        .from('bookings')
-        .insert({
-            restaurant_id: restaurantId,
-            guest_name: guestName,
-            guest_email: guestEmail,
-            guest_phone: guestPhone,
-            booking_date: date,
-            booking_time: normalizedTime,
-            party_size: partySize,
-            special_requests: specialRequests,
-            confirmation_number: confirmationNumber,
-            status: 'confirmed',
-            source: 'phone'
-        })
-        .select()
-        .single();
-
-    if (error) {
-        return { success: false, message: 'Failed to create booking. Please try again.' };
-    }
-
-    // 2. Create Event in Google Calendar (Real-time Sync)
-    if (restaurant.google_calendar_tokens) {
-        try {
-            console.log('📅 Creating Google Calendar event...');
-            const tokens = JSON.parse(restaurant.google_calendar_tokens);
-            const startTime = new Date(`${date}T${normalizedTime}:00`);
-            const endTime = new Date(startTime.getTime() + 90 * 60000); // 90 mins duration
-
-            const gCalEvent = await calendarService.createEvent(tokens, {
-                summary: `Reservation: ${guestName} (${partySize} ppl)`,
-                description: `Phone: ${guestPhone}\nEmail: ${guestEmail}\nSpecial Requests: ${specialRequests || 'None'}\nConfirmation: ${confirmationNumber}`,
-                start: startTime,
-                end: endTime,
-                attendees: guestEmail ? [guestEmail] : []
-            });
-
-            // Update booking with Google Event ID
-            await supabase
-                .from('bookings')
-                .update({ calendar_event_id: gCalEvent.id })
-                .eq('id', booking.id);
+async function createBooking(restaurantId: string, restaurant: any, params: any, callId?: string, toolCallId?: string) {
+    const { guestName, guestEmail, guestPhone, date, time, partySize, specialRequests, area } = params;
+
+    // Checks the party can actually be seated before confirming
+    const result = await bookingService.createBooking(restaurant, {
+        guestName,
+        guestEmail,
+        guestPhone,
+        date,
+        time,
+        partySize,
+        specialRequests,
+        area
+    }, {
+        source: 'phone',
+        actor: { type: 'ai_call', id: callId },
+        // VAPI retries a timed-out webhook with the same tool call id
+        idempotencyKey: toolCallIdempotencyKey(toolCallId)
+    });
 
-            console.log('✅ Google Calendar event created:', gCalEvent.id);
-        } catch (calendarError) {
-            console.error('⚠️ Google Calendar error:', calendarError);
+    if (!result.success) {
+        if (result.availability && !result.availability.available) {
+            return {
+                success: false,
+                message: result.availability.message || 'Sorry, that time is no longer available. Please choose another time.'
+            };
         }
+        if (result.paymentRequired) {
+            const amount = paymentService.formatAmount(result.paymentRequired.amountCents, result.paymentRequired.currency);
+            return {
+                success: false,
+                message: `This booking needs a ${result.paymentRequired.type === 'guarantee' ? 'card guarantee' : 'deposit'} of ${amount}. Please ask for an email address so we can send the payment link.`
+            };
+        }
+        return { success: false, message: 'Failed to create booking. Please try again.' };
     }
 
-    // 3. Send Emails & Notifications (Previous Logic)
-    if (guestEmail) {
-        await emailService.sendBookingConfirmation({
-            to: guestEmail,
-            restaurantName: restaurant.name || 'Restaurant',
-            guestName,
-            date,
-            time,
-            partySize,
-            confirmationNumber
-        });
-    }
-
-    if (restaurant.email) {
-        await emailService.sendRestaurantNotification({
-            to: restaurant.email,
-            subject: 'New Phone Booking',
-            message: `${guestName} booked a table for ${partySize} on ${date} at ${time}. Special requests: ${specialRequests || 'None'}. Confirmation: ${confirmationNumber}. Source: Phone.`,
-            bookingDetails: booking
-        });
-    }
-
-    // Create HubSpot contact and deal
-    if (guestEmail) {
-        try {
-            await hubspotService.upsertContact({
-                email: guestEmail,
-                firstName: guestName.split(' ')[0],
-                lastName: guestName.split(' ').slice(1).join(' '),
-                phone: guestPhone,
-                restaurantName: restaurant?.name
-            });
+    const confirmationNumber = result.booking.confirmation_number;
+    const spokenCode = formatConfirmationCodeForSpeech(confirmationNumber);
 
-            const deal = await hubspotService.createDeal({
-                dealName: `${restaurant?.name} - ${guestName} - ${date}`,
-                contactEmail: guestEmail,
-                restaurantId,
-                reservationDate: `${date} ${time}`,
-                partySize
-            });
-
-            // Persist HubSpot deal id for lifecycle updates
-            if (deal?.id) {
-                await supabase
-                    .from('bookings')
-                    .update({ hubspot_deal_id: deal.id })
-                    .eq('id', booking.id);
-            }
-        } catch (error) {
-            console.error('HubSpot error:', error);
-        }
+    if (result.payment) {
+        const amount = paymentService.formatAmount(result.payment.amount_cents, result.payment.currency);
+        return {
+            success: true,
+            confirmationNumber,
+            confirmationNumberSpoken: spokenCode,
+            paymentRequired: true,
+            message: `Your table for ${partySize} guests on ${date} at ${time} is on hold. A payment link for the ${result.payment.kind === 'guarantee' ? 'card guarantee' : 'deposit'} of ${amount} has been sent to ${guestEmail}, and the booking is confirmed once it is completed. Your confirmation code is ${spokenCode}.`
+        };
     }
 
     return {
         success: true,
         confirmationNumber,
-        message: `Perfect! Your reservation is confirmed for ${partySize} guests on ${date} at ${time}. Your confirmation number is ${confirmationNumber}. ${guestEmail ? 'A confirmation email has been sent to you.' : ''}`
+        confirmationNumberSpoken: spokenCode,
+        message: `Perfect! Your reservation is confirmed for ${partySize} guests on ${date} at ${time}. Your confirmation code is ${spokenCode}. ${guestEmail ? 'A confirmation email has been sent to you.' : ''}`
     };
 }
 
 /**
  * Update booking function
  */
-async function updateBooking(restaurantId: string, restaurant: any, params: any) {
-    const { confirmationNumber, ...updates } = params;
+async function updateBooking(restaurantId: string, restaurant: any, params: any, callId?: string) {
+    const { confirmationNumber, date, time, partySize } = params;
 
-    if (updates.time) {
-        updates.time = normalizeTime(updates.time);
-    }
+    // Map tool parameters onto booking columns
+    const updates: any = {};
+    if (date) updates.booking_date = date;
+    if (time) updates.booking_time = normalizeTime(time);
+    if (partySize) updates.party_size = partySize;
 
-    // 1. Update Database
-    let { data: booking, error } = await supabase
-        .from('bookings')
-        .update(updates)
-        .eq('restaurant_id', restaurantId)
-        .eq('confirmation_number', confirmationNumber)
-        .select()
-        .single();
+    // Codes are only unique per restaurant, and callers say them with spaces or phonetically
+    const existing = await bookingService.findByConfirmationNumber(restaurantId, confirmationNumber);
 
-    // Fallback: try without restaurant filter in case of mismatch
-    if ((error || !booking) && !updates.id) {
-        const fallback = await supabase
-            .from('bookings')
-            .update(updates)
-            .eq('confirmation_number', confirmationNumber)
-            .select()
-            .single();
-        booking = fallback.data as any;
-        error = fallback.error as any;
+    if (!existing) {
+        return { success: false, message: 'I could not find a booking with that confirmation code. Could you spell it again?' };
     }
 
-    if (error || !booking) {
-        return { success: false, message: 'Booking not found or update failed.' };
-    }
+    // Re-checks availability and updates Google Calendar and HubSpot
+    const result = await bookingService.updateBooking(restaurant, existing, updates, { type: 'ai_call', id: callId });
 
-    // 2. Update Google Calendar Event
-    if (restaurant.google_calendar_tokens && booking.calendar_event_id && (updates.date || updates.time)) {
-        try {
-            console.log('📅 Updating Google Calendar event...');
-            const tokens = JSON.parse(restaurant.google_calendar_tokens);
-
-            // Re-calculate times if date/time changed
-            const newDate = updates.date || booking.booking_date;
-            const newTime = updates.time || booking.booking_time;
-            const startTime = new Date(`${newDate}T${newTime}:00`);
-            const endTime = new Date(startTime.getTime() + 90 * 60000);
-
-            await calendarService.updateEvent(tokens, booking.calendar_event_id, {
-                start: startTime,
-                end: endTime,
-                summary: `Reservation: ${booking.guest_name} (${updates.partySize || booking.party_size} ppl)`
-            });
-            console.log('✅ Google Calendar event updated');
-        } catch (err) {
-            console.error('⚠️ Google Calendar update error:', err);
+    if (!result.success) {
+        if (result.notEditable) {
+            return { success: false, message: 'This booking can no longer be changed.' };
         }
-    }
-
-    // Update HubSpot deal stage if available
-    if (booking.hubspot_deal_id) {
-        try {
-            await hubspotService.updateDealStatus(booking.hubspot_deal_id, 'confirmed');
-        } catch (hubspotError) {
-            console.error('HubSpot update error:', hubspotError);
+        if (result.availability && !result.availability.available) {
+            return {
+                success: false,
+                message: result.availability.message || 'Sorry, that time is not available. Please choose another time.'
+            };
         }
+        return { success: false, message: 'Booking not found or update failed.' };
     }
 
     return {
@@ -586,67 +539,99 @@ async function updateBooking(restaurantId: string, restaurant: any, params: any)
 /**
  * Cancel booking function
  */
-async function cancelBooking(restaurantId: string, restaurant: any, params: any) {
-    const { confirmationNumber } = params;
+async function cancelBooking(restaurantId: string, restaurant: any, params: any, callId?: string) {
+    const { confirmationNumber, confirmed } = params;
 
-    // 1. Get Booking to find Event ID
-    let { data: booking } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('restaurant_id', restaurantId)
-        .eq('confirmation_number', confirmationNumber)
-        .single();
+    // 1. Get Booking
+    const booking = await bookingService.findByConfirmationNumber(restaurantId, confirmationNumber);
 
     if (!booking) {
-        const fallback = await supabase
-            .from('bookings')
-            .select('*')
-            .eq('confirmation_number', confirmationNumber)
-            .single();
-        booking = fallback.data || null;
-    }
-
-    if (!booking) {
-        return { success: false, message: 'Booking not found.' };
-    }
-
-    // 2. Update Status in Database
-    const { error } = await supabase
-        .from('bookings')
-        .update({ status: 'cancelled' })
-        .eq('id', booking.id);
-
-    if (error) {
-        return { success: false, message: 'Failed to cancel booking.' };
+        return { success: false, message: 'I could not find a booking with that confirmation code. Could you spell it again?' };
     }
 
-    // 3. Delete from Google Calendar
-    if (restaurant.google_calendar_tokens && booking.calendar_event_id) {
-        try {
-            console.log('📅 Deleting Google Calendar event...');
-            const tokens = JSON.parse(restaurant.google_calendar_tokens);
-            await calendarService.deleteEvent(tokens, booking.calendar_event_id);
-            console.log('✅ Google Calendar event deleted');
-        } catch (err) {
-            console.error('⚠️ Google Calendar delete error:', err);
-        }
+    // 2. The caller must hear what a late cancellation costs before we go ahead
+    const policy = await cancellationPolicyService.assessCancellation(restaurant, booking);
+    if (policy.lateCancel && confirmed !== true) {
+        return {
+            success: false,
+            requiresConfirmation: true,
+            message: `${policy.message} Would you still like to cancel?`
+        };
     }
 
-    // Update HubSpot deal stage if available
-    if (booking.hubspot_deal_id) {
-        try {
-            await hubspotService.updateDealStatus(booking.hubspot_deal_id, 'cancelled');
-        } catch (hubspotError) {
-            console.error('HubSpot cancel error:', hubspotError);
-        }
+    // 3. Cancel and clean up Google Calendar, HubSpot and the waitlist
+    const result = await bookingService.cancelBooking(restaurant, booking, { type: 'ai_call', id: callId });
+    if (!result.success) {
+        return { success: false, message: result.invalidTransition ? 'This booking can no longer be cancelled.' : 'Failed to cancel booking.' };
     }
 
     return {
         success: true,
-        message: 'Your booking has been cancelled successfully.'
+        message: result.policy?.lateCancel
+            ? `Your booking has been cancelled. ${result.policy.message}`
+            : 'Your booking has been cancelled successfully.'
     };
 }
 
+/**
+ * Add caller to the waitlist function
+ */
+async function addToWaitlist(restaurantId: string, restaurant: any, params: any) {
+    const { guestName, guestEmail, guestPhone, date, timeFrom, timeTo, partySize } = params;
+
+    try {
+        await waitlistService.addEntry(restaurantId, {
+            guestName,
+            guestEmail,
+            guestPhone,
+            date,
+            timeFrom,
+            timeTo: timeTo || timeFrom,
+            partySize,
+            source: 'phone'
+        });
+
+        return {
+            success: true,
+            message: `You're on the waitlist for ${partySize} guests on ${date} between ${timeFrom} and ${timeTo || timeFrom}. ${guestEmail ? "If a table opens up, we'll email you a link to claim it." : 'The restaurant will contact you if a table opens up.'}`
+        };
+    } catch (error) {
+        console.error('Error adding to waitlist:', error);
+        return { success: false, message: 'Sorry, I could not add you to the waitlist right now.' };
+    }
+}
+
+/**
+ * Capture a large-party or private dining request function
+ */
+async function requestLargeParty(restaurantId: string, restaurant: any, params: any) {
+    const { guestName, guestEmail, guestPhone, date, time, partySize, occasion, budget, menuPreferences, notes } = params;
+
+    try {
+        await inquiryService.createInquiry(restaurant, {
+            guestName,
+            guestEmail,
+            guestPhone,
+            date,
+            time,
+            partySize,
+            occasion,
+            budget,
+            menuPreferences,
+            notes,
+            source: 'phone'
+        });
+
+        return {
+            success: true,
+            message: `I've sent your request for ${partySize} guests on ${date} at ${time} to the restaurant. They will review it and get back to you${guestEmail ? ' by email' : ''} shortly.`
+        };
+    } catch (error) {
+        console.error('Error creating large party request:', error);
+        return { success: false, message: 'Sorry, I could not send your request right now.' };
+    }
+}
+
 /**
  * Answer question using RAG
  */
@@ -669,22 +654,3 @@ async function answerQuestion(restaurantId: string, restaurant: any, params: any
 }
 
 export default router;
-
-function normalizeTime(timeStr?: string): string | undefined {
-    if (!timeStr) return timeStr;
-    // If already 24h HH:MM
-    if (/^\d{2}:\d{2}$/.test(timeStr)) return timeStr;
-
-    // Handle "HH:MM AM/PM"
-    const match = timeStr.match(/(\d{1,2}):(\d{2})\s*(AM|PM|am|pm)?/);
-    if (!match) return timeStr;
-    let [_, hh, mm, mer] = match;
-    let hour = parseInt(hh, 10);
-    if (mer) {
-        const upper = mer.toUpperCase();
-        if (upper === 'PM' && hour < 12) hour += 12;
-        if (upper === 'AM' && hour === 12) hour = 0;
-    }
-    const hh24 = hour.toString().padStart(2, '0');
-    return `${hh24}:${mm}`;
-}
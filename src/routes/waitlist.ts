@@ -0,0 +1,212 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import supabase from '../config/supabase';
+import waitlistService from '../services/waitlist.service';
+import bookingService from '../services/booking.service';
+
+const router = Router();
+
+/**
+ * Claim a waitlist offer (public, reached from the offer email)
+ */
+router.post('/claim', async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            return res.status(400).json({ error: 'Offer token required' });
+        }
+
+        const entry = await waitlistService.findByOfferToken(token);
+        if (!entry || entry.status !== 'offered') {
+            return res.status(404).json({ error: 'Offer not found' });
+        }
+
+        if (!entry.offer_expires_at || new Date(entry.offer_expires_at) < new Date()) {
+            return res.status(410).json({ error: 'This offer has expired' });
+        }
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('id', entry.restaurant_id)
+            .single();
+
+        if (!restaurant) {
+            return res.status(404).json({ error: 'Restaurant not found' });
+        }
+
+        // Re-checks availability, someone else may have claimed the table first.
+        // The entry stays offered until the booking exists, so a repeated claim must not book twice.
+        const result = await bookingService.createBooking(restaurant, {
+            guestName: entry.guest_name,
+            guestEmail: entry.guest_email,
+            guestPhone: entry.guest_phone,
+            date: entry.booking_date,
+            time: entry.offered_time,
+            partySize: entry.party_size,
+            specialRequests: entry.notes
+        }, { source: 'waitlist', actor: { type: 'guest', id: entry.id }, idempotencyKey: `waitlist:${entry.id}` });
+
+        if (!result.success) {
+            if (result.availability && !result.availability.available) {
+                await waitlistService.releaseOffer(entry.id);
+                return res.status(409).json({ error: 'Sorry, this table has already been taken. You are still on the waitlist.' });
+            }
+            return res.status(500).json({ error: 'Failed to create booking' });
+        }
+
+        await waitlistService.markBooked(entry.id, result.booking.id);
+
+        res.status(201).json({
+            message: 'Booking created successfully',
+            booking: result.booking,
+            confirmationNumber: result.booking.confirmation_number
+        });
+    } catch (error: any) {
+        console.error('Claim waitlist offer error:', error);
+        res.status(500).json({ error: 'Failed to claim offer' });
+    }
+});
+
+router.use(authenticateToken);
+
+/**
+ * Get waitlist entries
+ */
+router.get('/', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { status, date, limit = 50, offset = 0 } = req.query;
+
+        let query = supabase
+            .from('waitlist_entries')
+            .select('*', { count: 'exact' })
+            .eq('restaurant_id', restaurantId)
+            .order('booking_date', { ascending: true })
+            .order('created_at', { ascending: true })
+            .range(Number(offset), Number(offset) + Number(limit) - 1);
+
+        if (status) {
+            query = query.eq('status', status);
+        }
+
+        if (date) {
+            query = query.eq('booking_date', date);
+        }
+
+        const { data: entries, error, count } = await query;
+
+        if (error) {
+            return res.status(500).json({ error: 'Failed to fetch waitlist' });
+        }
+
+        res.json({ entries, total: count, limit: Number(limit), offset: Number(offset) });
+    } catch (error: any) {
+        console.error('Get waitlist error:', error);
+        res.status(500).json({ error: 'Failed to fetch waitlist' });
+    }
+});
+
+/**
+ * Add guest to waitlist
+ */
+router.post('/', async (req: AuthRequest, res: Response) => {
+    try {
+        const restaurantId = req.user!.restaurantId;
+        const { guestName, guestEmail, guestPhone, date, timeFrom, timeTo, partySize, notes } = req.body;
+
+        if (!guestName || !date || !timeFrom || !timeTo || !partySize) {
+            return res.status(400).json({ error: 'Missing required fields' });
+        }
+
+        if (!guestEmail && !guestPhone) {
+            return res.status(400).json({ error: 'An email or phone number is required' });
+        }
+
+        const entry = await waitlistService.addEntry(restaurantId, {
+            guestName,
+            guestEmail,
+            guestPhone,
+            date,
+            timeFrom,
+            timeTo,
+            partySize,
+            notes,
+            source: 'manual'
+        });
+
+        res.status(201).json({ message: 'Added to waitlist', entry });
+    } catch (error: any) {
+        console.error('Add waitlist entry error:', error);
+        res.status(500).json({ error: 'Failed to add to waitlist' });
+    }
+});
+
+/**
+ * Update waitlist entry
+ */
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+        const { status, notes, date, timeFrom, timeTo, partySize } = req.body;
+
+        const updates: any = {};
+        if (status !== undefined) {
+            if (!['waiting', 'cancelled', 'expired'].includes(status)) {
+                return res.status(400).json({ error: 'Invalid status' });
+            }
+            updates.status = status;
+        }
+        if (notes !== undefined) updates.notes = notes;
+        if (date !== undefined) updates.booking_date = date;
+        if (timeFrom !== undefined) updates.window_start = timeFrom;
+        if (timeTo !== undefined) updates.window_end = timeTo;
+        if (partySize !== undefined) updates.party_size = partySize;
+
+        const { data: entry, error } = await supabase
+            .from('waitlist_entries')
+            .update(updates)
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId)
+            .select()
+            .single();
+
+        if (error || !entry) {
+            return res.status(404).json({ error: 'Waitlist entry not found' });
+        }
+
+        res.json({ message: 'Waitlist entry updated successfully', entry });
+    } catch (error: any) {
+        console.error('Update waitlist entry error:', error);
+        res.status(500).json({ error: 'Failed to update waitlist entry' });
+    }
+});
+
+/**
+ * Remove waitlist entry
+ */
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+    try {
+        const { id } = req.params;
+        const restaurantId = req.user!.restaurantId;
+
+        const { error } = await supabase
+            .from('waitlist_entries')
+            .delete()
+            .eq('id', id)
+            .eq('restaurant_id', restaurantId);
+
+        if (error) {
+            return res.status(500).json({ error: 'Failed to remove waitlist entry' });
+        }
+
+        res.json({ message: 'Waitlist entry removed successfully' });
+    } catch (error: any) {
+        console.error('Delete waitlist entry error:', error);
+        res.status(500).json({ error: 'Failed to remove waitlist entry' });
+    }
+});
+
+export default router;
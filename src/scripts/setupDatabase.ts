@@ -19,12 +19,16 @@ async function setupDatabase() {
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Trigram matching for booking search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 -- Restaurants table
 CREATE TABLE IF NOT EXISTS restaurants (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   email VARCHAR(255) UNIQUE NOT NULL,
   password VARCHAR(255) NOT NULL,
   name VARCHAR(255) NOT NULL,
+  slug VARCHAR(100) UNIQUE, -- public booking widget URL
   owner_name VARCHAR(255) NOT NULL,
   phone VARCHAR(50),
   address TEXT,
@@ -32,8 +36,17 @@ CREATE TABLE IF NOT EXISTS restaurants (
   capacity INTEGER DEFAULT 50,
   max_party_size INTEGER DEFAULT 10,
   advance_booking_days INTEGER DEFAULT 30,
-  cancellation_policy TEXT,
-  opening_hours JSONB,
+  min_lead_minutes INTEGER DEFAULT 30,
+  same_day_cutoff TIME, -- no same-day bookings after this time
+  cancellation_policy TEXT, -- free text, or { "freeCancellationHours": 24, "lateCancelFee": { "amountPerGuest": 20 }, "noShowFee": { "amountPerGuest": 40 }, "forfeitDeposit": true, "text": "..." }
+  default_turn_minutes INTEGER DEFAULT 90,
+  turn_time_rules JSONB, -- [{ "service": "dinner", "minPartySize": 6, "minutes": 120 }, ...]
+  pacing_interval_minutes INTEGER DEFAULT 15,
+  pacing_rules JSONB, -- [{ "service": "dinner", "maxCovers": 20, "maxParties": 4 }, ...]
+  deposit_rules JSONB, -- [{ "type": "deposit", "minPartySize": 8, "days": ["saturday"], "amountPerGuest": 20 }, ...]
+  currency VARCHAR(3) DEFAULT 'USD',
+  timezone VARCHAR(64), -- IANA name, e.g. "Europe/London"; booking dates and times are local to it, null uses DEFAULT_TIMEZONE
+  opening_hours JSONB, -- { "monday": [{ "name": "lunch", "open": "12:00", "close": "14:30" }, ...], ... }
   special_features TEXT,
   
   -- Knowledge Base / Documents
@@ -52,6 +65,8 @@ CREATE TABLE IF NOT EXISTS restaurants (
   
   -- Calendar integration
   google_calendar_tokens TEXT,
+  calendar_feed_token VARCHAR(64) UNIQUE, -- secret in the ICS subscription URL, null when the feed is off
+  calendar_feed_options JSONB, -- { "daysBack": 7, "daysForward": 60, "includeGuestDetails": false }
   
   -- Verification
   verification_token VARCHAR(255),
@@ -65,42 +80,101 @@ CREATE TABLE IF NOT EXISTS restaurants (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Guest profiles, one per email or phone number at each restaurant
+CREATE TABLE IF NOT EXISTS guests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  
+  -- Contact
+  name VARCHAR(255),
+  email VARCHAR(255), -- lowercase
+  phone VARCHAR(50),
+  phone_digits VARCHAR(50) GENERATED ALWAYS AS (regexp_replace(coalesce(phone, ''), '[^0-9]', '', 'g')) STORED,
+  
+  -- History, recounted from bookings
+  visit_count INTEGER DEFAULT 0,
+  last_visit_date DATE,
+  no_show_count INTEGER DEFAULT 0,
+  cancellation_count INTEGER DEFAULT 0,
+  
+  -- Preferences and staff notes
+  allergies TEXT[] DEFAULT '{}',
+  seating_preferences TEXT,
+  tags TEXT[] DEFAULT '{}', -- 'vip', 'blacklist', 'regular', ...
+  notes TEXT,
+  
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Bookings table
 CREATE TABLE IF NOT EXISTS bookings (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  guest_id UUID REFERENCES guests(id) ON DELETE SET NULL,
   
   -- Guest information
   guest_name VARCHAR(255) NOT NULL,
   guest_email VARCHAR(255),
   guest_phone VARCHAR(50),
+  guest_phone_digits VARCHAR(50) GENERATED ALWAYS AS (regexp_replace(coalesce(guest_phone, ''), '[^0-9]', '', 'g')) STORED, -- for search
   
   -- Booking details
   booking_date DATE NOT NULL,
   booking_time TIME NOT NULL,
   party_size INTEGER NOT NULL,
+  duration_minutes INTEGER DEFAULT 90,
   special_requests TEXT,
   
   -- Status
-  status VARCHAR(50) DEFAULT 'confirmed',
-  confirmation_number VARCHAR(100) UNIQUE,
+  status VARCHAR(50) DEFAULT 'confirmed', -- 'pending', 'pending_payment', 'confirmed', 'seated', 'completed', 'no_show', 'cancelled'
+  confirmation_number VARCHAR(100), -- short speakable code, unique per restaurant
+  
+  -- Lifecycle timestamps
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  seated_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  no_show_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  payment_expires_at TIMESTAMP WITH TIME ZONE, -- a pending_payment hold stops holding the table after this
+  
+  -- Service on the night
+  service_stage VARCHAR(20), -- 'arrived', 'seated', 'mains', 'paid'
+  arrived_at TIMESTAMP WITH TIME ZONE,
+  mains_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  table_freed_at TIMESTAMP WITH TIME ZONE,
+  actual_turn_minutes INTEGER, -- seated to table freed
+  
+  -- Cancellation policy outcome
+  late_cancel BOOLEAN DEFAULT false,
+  penalty_cents INTEGER DEFAULT 0, -- late-cancel or no-show fee owed under the policy
   
   -- Source tracking
-  source VARCHAR(50) DEFAULT 'manual',
+  source VARCHAR(50) DEFAULT 'manual', -- 'manual', 'phone', 'web', 'walk_in', 'import', 'waitlist' or the BCC email platform
+  idempotency_key VARCHAR(500), -- VAPI tool call id, Idempotency-Key header or email Message-ID
+  
+  -- Seating
+  table_ids UUID[],
   
   -- External integrations
   calendar_event_id VARCHAR(255),
   hubspot_deal_id VARCHAR(255),
+  ics_sequence INTEGER DEFAULT 0, -- iCalendar SEQUENCE, bumped when the time changes or the booking is cancelled
   
   -- Timestamps
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  
+  UNIQUE (restaurant_id, confirmation_number)
 );
 
 -- Call logs table
 CREATE TABLE IF NOT EXISTS call_logs (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  guest_id UUID REFERENCES guests(id) ON DELETE SET NULL,
   
   -- Call details
   call_id VARCHAR(255) UNIQUE,
@@ -122,8 +196,10 @@ CREATE TABLE IF NOT EXISTS call_logs (
 CREATE TABLE IF NOT EXISTS bcc_emails (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  guest_id UUID REFERENCES guests(id) ON DELETE SET NULL,
   
   -- Email details
+  message_id VARCHAR(500), -- inbound Message-ID, so redelivered emails are only processed once
   from_email VARCHAR(255),
   subject TEXT,
   
@@ -139,51 +215,425 @@ CREATE TABLE IF NOT EXISTS bcc_emails (
   -- Raw content
   raw_content TEXT,
   
-  -- Timestamp
+  -- Timestamps
+  processed_at TIMESTAMP WITH TIME ZONE, -- set once handled; redeliveries before that are processed again
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Tables (floor plan)
+CREATE TABLE IF NOT EXISTS tables (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  
+  -- Table details
+  name VARCHAR(100) NOT NULL,
+  area VARCHAR(50) DEFAULT 'main',
+  min_seats INTEGER NOT NULL DEFAULT 1,
+  max_seats INTEGER NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Table combinations (tables that can be pushed together)
+CREATE TABLE IF NOT EXISTS table_combinations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  
+  -- Combination details
+  name VARCHAR(100) NOT NULL,
+  table_ids UUID[] NOT NULL,
+  min_seats INTEGER NOT NULL DEFAULT 1,
+  max_seats INTEGER NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Special hours (one-off closures and holiday hours)
+CREATE TABLE IF NOT EXISTS special_hours (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  
+  -- Override details
+  date DATE NOT NULL,
+  is_closed BOOLEAN DEFAULT FALSE,
+  service_periods JSONB,
+  note TEXT,
+  
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  
+  UNIQUE (restaurant_id, date)
+);
+
+-- Booking change history
+CREATE TABLE IF NOT EXISTS booking_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE,
+  restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  
+  -- Change details
+  action VARCHAR(50) NOT NULL, -- 'created', 'updated', 'cancelled', 'status_changed'
+  changes JSONB, -- { "party_size": { "from": 2, "to": 4 } }
+  
+  -- Who made the change
+  actor_type VARCHAR(50) NOT NULL, -- 'staff', 'ai_call', 'email', 'guest', 'system'
+  actor_id VARCHAR(255), -- staff user id, VAPI call id or bcc_emails id
+  
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Deposits and card guarantees
+CREATE TABLE IF NOT EXISTS booking_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE,
+  restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  
+  -- Provider details
+  provider VARCHAR(50) NOT NULL, -- 'fake'
+  provider_payment_id VARCHAR(255) UNIQUE NOT NULL,
+  payment_url TEXT,
+  
+  -- Amount
+  kind VARCHAR(50) NOT NULL, -- 'deposit', 'guarantee'
+  amount_cents INTEGER NOT NULL,
+  currency VARCHAR(3) DEFAULT 'USD',
+  
+  -- Status
+  status VARCHAR(50) DEFAULT 'pending', -- 'pending', 'paid', 'authorized', 'refunded', 'released', 'forfeited', 'cancelled'
+  paid_at TIMESTAMP WITH TIME ZONE,
+  refunded_at TIMESTAMP WITH TIME ZONE,
+  forfeited_at TIMESTAMP WITH TIME ZONE,
+  last_failed_at TIMESTAMP WITH TIME ZONE,
+  
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Large-party and private dining requests
+CREATE TABLE IF NOT EXISTS booking_inquiries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  
+  -- Guest information
+  guest_name VARCHAR(255) NOT NULL,
+  guest_email VARCHAR(255),
+  guest_phone VARCHAR(50),
+  
+  -- Request details
+  requested_date DATE NOT NULL,
+  requested_time TIME NOT NULL,
+  party_size INTEGER NOT NULL,
+  occasion VARCHAR(255),
+  budget VARCHAR(255),
+  menu_preferences TEXT,
+  notes TEXT,
+  source VARCHAR(50) DEFAULT 'manual', -- 'manual', 'phone'
+  
+  -- Restaurant response
+  status VARCHAR(50) DEFAULT 'pending', -- 'pending', 'approved', 'declined', 'countered'
+  proposed_date DATE,
+  proposed_time TIME,
+  proposed_party_size INTEGER,
+  response_message TEXT,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  proposal_token VARCHAR(255) UNIQUE, -- lets the guest accept a counter-proposal from the email
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Waitlist (guests waiting for a table to free up)
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+  
+  -- Guest information
+  guest_name VARCHAR(255) NOT NULL,
+  guest_email VARCHAR(255),
+  guest_phone VARCHAR(50),
+  
+  -- Requested window
+  booking_date DATE NOT NULL,
+  window_start TIME NOT NULL,
+  window_end TIME NOT NULL,
+  party_size INTEGER NOT NULL,
+  notes TEXT,
+  source VARCHAR(50) DEFAULT 'manual', -- 'manual', 'phone'
+  
+  -- Offer state
+  status VARCHAR(50) DEFAULT 'waiting', -- 'waiting', 'offered', 'booked', 'expired', 'cancelled'
+  offered_time TIME,
+  offer_token VARCHAR(255) UNIQUE,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Upgrade databases set up before these columns existed; a no-op on fresh installs
+ALTER TABLE restaurants
+  ADD COLUMN IF NOT EXISTS slug VARCHAR(100) UNIQUE,
+  ADD COLUMN IF NOT EXISTS min_lead_minutes INTEGER DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS same_day_cutoff TIME,
+  ADD COLUMN IF NOT EXISTS default_turn_minutes INTEGER DEFAULT 90,
+  ADD COLUMN IF NOT EXISTS turn_time_rules JSONB,
+  ADD COLUMN IF NOT EXISTS pacing_interval_minutes INTEGER DEFAULT 15,
+  ADD COLUMN IF NOT EXISTS pacing_rules JSONB,
+  ADD COLUMN IF NOT EXISTS deposit_rules JSONB,
+  ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS calendar_feed_token VARCHAR(64) UNIQUE,
+  ADD COLUMN IF NOT EXISTS calendar_feed_options JSONB;
+
+-- timezone used to default to 'UTC', which hid DEFAULT_TIMEZONE; clear the filled-in values once
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'timezone' AND column_default IS NOT NULL
+  ) THEN
+    ALTER TABLE restaurants ALTER COLUMN timezone DROP DEFAULT;
+    UPDATE restaurants SET timezone = NULL WHERE timezone = 'UTC';
+  END IF;
+END $$;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS guest_id UUID REFERENCES guests(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS guest_phone_digits VARCHAR(50) GENERATED ALWAYS AS (regexp_replace(coalesce(guest_phone, ''), '[^0-9]', '', 'g')) STORED,
+  ADD COLUMN IF NOT EXISTS duration_minutes INTEGER DEFAULT 90,
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS seated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS payment_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS service_stage VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS arrived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS mains_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS table_freed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS actual_turn_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS late_cancel BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS penalty_cents INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(500),
+  ADD COLUMN IF NOT EXISTS table_ids UUID[],
+  ADD COLUMN IF NOT EXISTS ics_sequence INTEGER DEFAULT 0;
+
+-- Confirmation codes used to be unique across all restaurants
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_confirmation_number_key;
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bookings_restaurant_id_confirmation_number_key') THEN
+    ALTER TABLE bookings ADD CONSTRAINT bookings_restaurant_id_confirmation_number_key UNIQUE (restaurant_id, confirmation_number);
+  END IF;
+END $$;
+
+ALTER TABLE call_logs
+  ADD COLUMN IF NOT EXISTS guest_id UUID REFERENCES guests(id) ON DELETE SET NULL;
+
+ALTER TABLE bcc_emails
+  ADD COLUMN IF NOT EXISTS guest_id UUID REFERENCES guests(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS message_id VARCHAR(500),
+  ADD COLUMN IF NOT EXISTS processed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE booking_inquiries
+  ADD COLUMN IF NOT EXISTS proposal_token VARCHAR(255) UNIQUE;
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_bookings_restaurant ON bookings(restaurant_id);
 CREATE INDEX IF NOT EXISTS idx_bookings_date ON bookings(booking_date);
 CREATE INDEX IF NOT EXISTS idx_bookings_status ON bookings(status);
+CREATE INDEX IF NOT EXISTS idx_bookings_restaurant_date_time ON bookings(restaurant_id, booking_date, booking_time);
+CREATE INDEX IF NOT EXISTS idx_bookings_guest_email ON bookings(restaurant_id, guest_email);
+CREATE INDEX IF NOT EXISTS idx_bookings_guest_phone ON bookings(restaurant_id, guest_phone);
+CREATE INDEX IF NOT EXISTS idx_bookings_guest_name_trgm ON bookings USING gin (guest_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_bookings_guest_email_trgm ON bookings USING gin (guest_email gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_bookings_guest_phone_trgm ON bookings USING gin (guest_phone_digits gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_bookings_confirmation_trgm ON bookings USING gin (confirmation_number gin_trgm_ops);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_idempotency_key ON bookings(restaurant_id, idempotency_key);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bcc_emails_message_id ON bcc_emails(restaurant_id, message_id);
+CREATE INDEX IF NOT EXISTS idx_booking_events_booking ON booking_events(booking_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_booking_payments_booking ON booking_payments(booking_id);
+CREATE INDEX IF NOT EXISTS idx_tables_restaurant ON tables(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_table_combinations_restaurant ON table_combinations(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_special_hours_restaurant_date ON special_hours(restaurant_id, date);
+CREATE INDEX IF NOT EXISTS idx_booking_inquiries_restaurant_status ON booking_inquiries(restaurant_id, status);
+CREATE INDEX IF NOT EXISTS idx_waitlist_restaurant_date ON waitlist_entries(restaurant_id, booking_date);
 CREATE INDEX IF NOT EXISTS idx_call_logs_restaurant ON call_logs(restaurant_id);
 CREATE INDEX IF NOT EXISTS idx_bcc_emails_restaurant ON bcc_emails(restaurant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guests_email ON guests(restaurant_id, email) WHERE email IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guests_phone ON guests(restaurant_id, phone_digits) WHERE phone_digits <> '';
+CREATE INDEX IF NOT EXISTS idx_guests_name_trgm ON guests USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_guests_email_trgm ON guests USING gin (email gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_guests_phone_trgm ON guests USING gin (phone_digits gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_guests_tags ON guests USING gin (tags);
+CREATE INDEX IF NOT EXISTS idx_bookings_guest ON bookings(guest_id);
+CREATE INDEX IF NOT EXISTS idx_call_logs_guest ON call_logs(guest_id);
+CREATE INDEX IF NOT EXISTS idx_bcc_emails_guest ON bcc_emails(guest_id);
 
 -- Enable Row Level Security
 ALTER TABLE restaurants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE guests ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_payments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE call_logs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bcc_emails ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE table_combinations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE special_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_inquiries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies for restaurants (users can only see their own data)
+DROP POLICY IF EXISTS "Users can view own restaurant" ON restaurants;
 CREATE POLICY "Users can view own restaurant" ON restaurants
   FOR SELECT USING (auth.uid()::text = id::text);
 
+DROP POLICY IF EXISTS "Users can update own restaurant" ON restaurants;
 CREATE POLICY "Users can update own restaurant" ON restaurants
   FOR UPDATE USING (auth.uid()::text = id::text);
 
 -- RLS Policies for bookings
+DROP POLICY IF EXISTS "Users can view own bookings" ON bookings;
 CREATE POLICY "Users can view own bookings" ON bookings
   FOR SELECT USING (restaurant_id::text = auth.uid()::text);
 
+DROP POLICY IF EXISTS "Users can insert own bookings" ON bookings;
 CREATE POLICY "Users can insert own bookings" ON bookings
   FOR INSERT WITH CHECK (restaurant_id::text = auth.uid()::text);
 
+DROP POLICY IF EXISTS "Users can update own bookings" ON bookings;
 CREATE POLICY "Users can update own bookings" ON bookings
   FOR UPDATE USING (restaurant_id::text = auth.uid()::text);
 
+DROP POLICY IF EXISTS "Users can delete own bookings" ON bookings;
 CREATE POLICY "Users can delete own bookings" ON bookings
   FOR DELETE USING (restaurant_id::text = auth.uid()::text);
 
+-- RLS Policies for guests
+DROP POLICY IF EXISTS "Users can manage own guests" ON guests;
+CREATE POLICY "Users can manage own guests" ON guests
+  FOR ALL USING (restaurant_id::text = auth.uid()::text);
+
 -- RLS Policies for call_logs
+DROP POLICY IF EXISTS "Users can view own call logs" ON call_logs;
 CREATE POLICY "Users can view own call logs" ON call_logs
   FOR SELECT USING (restaurant_id::text = auth.uid()::text);
 
 -- RLS Policies for bcc_emails
+DROP POLICY IF EXISTS "Users can view own bcc emails" ON bcc_emails;
 CREATE POLICY "Users can view own bcc emails" ON bcc_emails
   FOR SELECT USING (restaurant_id::text = auth.uid()::text);
 
+-- RLS Policies for booking_events
+DROP POLICY IF EXISTS "Users can view own booking events" ON booking_events;
+CREATE POLICY "Users can view own booking events" ON booking_events
+  FOR SELECT USING (restaurant_id::text = auth.uid()::text);
+
+-- RLS Policies for booking_payments
+DROP POLICY IF EXISTS "Users can view own booking payments" ON booking_payments;
+CREATE POLICY "Users can view own booking payments" ON booking_payments
+  FOR SELECT USING (restaurant_id::text = auth.uid()::text);
+
+-- RLS Policies for tables
+DROP POLICY IF EXISTS "Users can manage own tables" ON tables;
+CREATE POLICY "Users can manage own tables" ON tables
+  FOR ALL USING (restaurant_id::text = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can manage own table combinations" ON table_combinations;
+CREATE POLICY "Users can manage own table combinations" ON table_combinations
+  FOR ALL USING (restaurant_id::text = auth.uid()::text);
+
+-- RLS Policies for special_hours
+DROP POLICY IF EXISTS "Users can manage own special hours" ON special_hours;
+CREATE POLICY "Users can manage own special hours" ON special_hours
+  FOR ALL USING (restaurant_id::text = auth.uid()::text);
+
+-- RLS Policies for booking_inquiries
+DROP POLICY IF EXISTS "Users can manage own inquiries" ON booking_inquiries;
+CREATE POLICY "Users can manage own inquiries" ON booking_inquiries
+  FOR ALL USING (restaurant_id::text = auth.uid()::text);
+
+-- RLS Policies for waitlist_entries
+DROP POLICY IF EXISTS "Users can manage own waitlist" ON waitlist_entries;
+CREATE POLICY "Users can manage own waitlist" ON waitlist_entries
+  FOR ALL USING (restaurant_id::text = auth.uid()::text);
+
+-- Booking search: fuzzy on guest name and email, substring on phone digits, prefix or fuzzy on
+-- confirmation number. Called through supabase.rpc('search_bookings').
+CREATE OR REPLACE FUNCTION search_bookings(
+  p_restaurant_id UUID,
+  p_query TEXT DEFAULT NULL, -- name or email text
+  p_phone_digits TEXT DEFAULT NULL, -- query with everything but digits removed
+  p_code TEXT DEFAULT NULL, -- query normalized as a confirmation code
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_min_party INTEGER DEFAULT NULL,
+  p_max_party INTEGER DEFAULT NULL,
+  p_sources TEXT[] DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance', -- 'relevance', 'time' or 'time_desc'
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (booking JSONB, relevance REAL, total_count BIGINT) AS $$
+  WITH matches AS (
+    SELECT b.*,
+      CASE WHEN p_query IS NULL THEN 0 ELSE GREATEST(
+        similarity(b.guest_name, p_query),
+        word_similarity(p_query, b.guest_name),
+        similarity(coalesce(b.guest_email, ''), p_query),
+        CASE WHEN b.guest_email ILIKE '%' || p_query || '%' THEN 0.9 ELSE 0 END,
+        CASE WHEN p_phone_digits IS NOT NULL AND b.guest_phone_digits LIKE '%' || p_phone_digits || '%' THEN 0.95 ELSE 0 END,
+        CASE
+          WHEN p_code IS NULL THEN 0
+          WHEN b.confirmation_number = p_code THEN 1
+          WHEN b.confirmation_number ILIKE p_code || '%' THEN 0.9
+          ELSE similarity(coalesce(b.confirmation_number, ''), p_code)
+        END
+      ) END::REAL AS score
+    FROM bookings b
+    WHERE b.restaurant_id = p_restaurant_id
+      AND (p_date_from IS NULL OR b.booking_date >= p_date_from)
+      AND (p_date_to IS NULL OR b.booking_date <= p_date_to)
+      AND (p_min_party IS NULL OR b.party_size >= p_min_party)
+      AND (p_max_party IS NULL OR b.party_size <= p_max_party)
+      AND (p_sources IS NULL OR b.source = ANY(p_sources))
+      AND (p_statuses IS NULL OR b.status = ANY(p_statuses))
+      AND (
+        p_query IS NULL
+        OR b.guest_name % p_query
+        OR p_query <% b.guest_name
+        OR b.guest_name ILIKE '%' || p_query || '%'
+        OR b.guest_email % p_query
+        OR b.guest_email ILIKE '%' || p_query || '%'
+        OR (p_phone_digits IS NOT NULL AND b.guest_phone_digits LIKE '%' || p_phone_digits || '%')
+        OR (p_code IS NOT NULL AND (b.confirmation_number ILIKE p_code || '%' OR b.confirmation_number % p_code))
+      )
+  )
+  SELECT to_jsonb(m) - 'score', m.score, count(*) OVER ()
+  FROM matches m
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' THEN m.score END DESC,
+    CASE WHEN p_sort = 'time_desc' THEN m.booking_date END DESC,
+    CASE WHEN p_sort = 'time_desc' THEN m.booking_time END DESC,
+    m.booking_date,
+    m.booking_time
+  LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -194,10 +644,25 @@ END;
 $$ language 'plpgsql';
 
 -- Triggers for updated_at
-CREATE TRIGGER update_restaurants_updated_at BEFORE UPDATE ON restaurants
+CREATE OR REPLACE TRIGGER update_restaurants_updated_at BEFORE UPDATE ON restaurants
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE TRIGGER update_bookings_updated_at BEFORE UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE TRIGGER update_guests_updated_at BEFORE UPDATE ON guests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE TRIGGER update_tables_updated_at BEFORE UPDATE ON tables
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE TRIGGER update_booking_payments_updated_at BEFORE UPDATE ON booking_payments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE TRIGGER update_booking_inquiries_updated_at BEFORE UPDATE ON booking_inquiries
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
-CREATE TRIGGER update_bookings_updated_at BEFORE UPDATE ON bookings
+CREATE OR REPLACE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON waitlist_entries
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 `;
 
@@ -16,6 +16,13 @@ import vapiRoutes from './routes/vapi';
 import emailRoutes from './routes/email';
 import calendarRoutes from './routes/calendar';
 import settingsRoutes from './routes/settings';
+import tableRoutes from './routes/tables';
+import hoursRoutes from './routes/hours';
+import waitlistRoutes from './routes/waitlist';
+import paymentRoutes from './routes/payments';
+import publicRoutes from './routes/public';
+import inquiryRoutes from './routes/inquiries';
+import guestRoutes from './routes/guests';
 
 const app: Application = express();
 const PORT = process.env.PORT || 5000;
@@ -33,7 +40,7 @@ const allowedOrigins = [
     'https://www.tablenowfrontend.vercel.app'
 ].filter(Boolean); // Remove any undefined values
 
-app.use(cors({
+const dashboardCors = cors({
     origin: (origin, callback) => {
         if (!origin || allowedOrigins.includes(origin)) {
             return callback(null, origin || allowedOrigins[0]);
@@ -41,7 +48,17 @@ app.use(cors({
         return callback(new Error('Not allowed by CORS'));
     },
     credentials: true
-}));
+});
+
+// The booking widget is embedded on restaurant websites, so the public API accepts any origin
+const publicCors = cors({ origin: true });
+
+app.use((req: Request, res: Response, next: NextFunction) => {
+    if (req.path.startsWith('/api/public/')) {
+        return publicCors(req, res, next);
+    }
+    return dashboardCors(req, res, next);
+});
 
 // Rate limiting
 const limiter = rateLimit({
@@ -51,7 +68,13 @@ const limiter = rateLimit({
 app.use('/api/', limiter);
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+// Keep the raw bytes so payment webhook signatures can be checked
+app.use(express.json({
+    limit: '10mb',
+    verify: (req, _res, buf) => {
+        (req as any).rawBody = buf;
+    }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Logging
@@ -70,6 +93,13 @@ app.use('/api/vapi', vapiRoutes);
 app.use('/api/email', emailRoutes);
 app.use('/api/calendar', calendarRoutes);
 app.use('/api/settings', settingsRoutes);
+app.use('/api/tables', tableRoutes);
+app.use('/api/hours', hoursRoutes);
+app.use('/api/waitlist', waitlistRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/public', publicRoutes);
+app.use('/api/inquiries', inquiryRoutes);
+app.use('/api/guests', guestRoutes);
 
 // Error handling middleware
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
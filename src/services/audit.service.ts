@@ -0,0 +1,105 @@
+import supabase from '../config/supabase';
+import { normalizeDate, normalizeTime } from '../utils/datetime';
+
+export type BookingActorType = 'staff' | 'ai_call' | 'email' | 'guest' | 'system';
+
+export interface BookingActor {
+    type: BookingActorType;
+    id?: string; // Staff user id, VAPI call id, bcc_emails id or waitlist entry id
+}
+
+export type BookingEventAction = 'created' | 'updated' | 'cancelled' | 'status_changed';
+
+export interface FieldChange {
+    from: any;
+    to: any;
+}
+
+/** Fields whose changes are worth showing in a booking's history */
+const TRACKED_FIELDS = [
+    'guest_name',
+    'guest_email',
+    'guest_phone',
+    'booking_date',
+    'booking_time',
+    'party_size',
+    'duration_minutes',
+    'special_requests',
+    'table_ids',
+    'status',
+    'service_stage',
+    'late_cancel',
+    'penalty_cents'
+];
+
+export class AuditService {
+    /**
+     * Record a change to a booking; failures are logged and never block the booking itself
+     */
+    async recordBookingEvent(action: BookingEventAction, before: any | null, after: any, actor: BookingActor): Promise<void> {
+        const changes = this.diff(before, after);
+
+        // Nothing worth recording, e.g. an update that re-sent the same values
+        if (action === 'updated' && Object.keys(changes).length === 0) return;
+
+        const { error } = await supabase
+            .from('booking_events')
+            .insert({
+                booking_id: after.id,
+                restaurant_id: after.restaurant_id,
+                action,
+                changes,
+                actor_type: actor.type,
+                actor_id: actor.id || null
+            });
+
+        if (error) {
+            console.error('Error recording booking event:', error);
+        }
+    }
+
+    /**
+     * Get the change history of a booking, oldest first
+     */
+    async getBookingHistory(bookingId: string): Promise<any[]> {
+        const { data: events, error } = await supabase
+            .from('booking_events')
+            .select('*')
+            .eq('booking_id', bookingId)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error fetching booking history:', error);
+            throw error;
+        }
+
+        return events || [];
+    }
+
+    private diff(before: any | null, after: any): Record<string, FieldChange> {
+        const changes: Record<string, FieldChange> = {};
+
+        for (const field of TRACKED_FIELDS) {
+            if (after[field] === undefined) continue;
+
+            const from = this.normalize(field, before ? before[field] ?? null : null);
+            const to = this.normalize(field, after[field] ?? null);
+
+            if (JSON.stringify(from) !== JSON.stringify(to)) {
+                changes[field] = { from, to };
+            }
+        }
+
+        return changes;
+    }
+
+    /** Postgres returns "19:00:00" where updates send "19:00", which is not a change */
+    private normalize(field: string, value: any): any {
+        if (typeof value !== 'string') return value;
+        if (field === 'booking_time') return normalizeTime(value);
+        if (field === 'booking_date') return normalizeDate(value);
+        return value;
+    }
+}
+
+export default new AuditService();
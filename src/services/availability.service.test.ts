@@ -0,0 +1,216 @@
+jest.mock('../config/supabase', () => ({
+    __esModule: true,
+    default: { from: (table: string) => mockQuery(table) }
+}));
+
+import availabilityService, { DEFAULT_TURN_RANGE, PACING_INTERVAL_RANGE } from './availability.service';
+
+/** Rows each table returns; filters are ignored, so fixtures only hold rows the query would match */
+const mockRows: Record<string, any[]> = {};
+
+/** Stand-in for the Supabase query builder: any chain of filters resolves to the table's fixture rows */
+function mockQuery(table: string, single = false): any {
+    return new Proxy({}, {
+        get: (_target, prop) => {
+            if (prop === 'then') {
+                const rows = mockRows[table] || [];
+                const result = { data: single ? rows[0] ?? null : rows, error: null };
+                return (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+            }
+            return () => mockQuery(table, single || prop === 'single' || prop === 'maybeSingle');
+        }
+    });
+}
+
+/** Two days ahead, inside any booking window */
+const DATE = new Date(Date.now() + 2 * 86400000).toISOString().slice(0, 10);
+
+const restaurant = { id: 'r1', capacity: 20, max_party_size: 12 };
+
+const tables = [
+    { id: 't2', name: 'T2', area: 'main', min_seats: 1, max_seats: 2 },
+    { id: 't4', name: 'T4', area: 'main', min_seats: 2, max_seats: 4 },
+    { id: 'p6', name: 'P6', area: 'patio', min_seats: 3, max_seats: 6 }
+];
+const combinations = [
+    { id: 'c1', name: 'T2+T4', table_ids: ['t2', 't4'], min_seats: 4, max_seats: 6 }
+];
+
+function booking(time: string, partySize: number, tableIds: string[] | null = null) {
+    return { id: `b-${time}-${partySize}`, booking_time: time, party_size: partySize, duration_minutes: 90, table_ids: tableIds, status: 'confirmed' };
+}
+
+function check(floor: { tables?: any[]; combinations?: any[]; bookings?: any[] }, time: string, partySize: number, extra: any = {}) {
+    mockRows.tables = floor.tables || [];
+    mockRows.table_combinations = floor.combinations || [];
+    mockRows.bookings = floor.bookings || [];
+    return availabilityService.checkAvailability(
+        { ...restaurant, ...extra.restaurant },
+        { date: DATE, time, partySize, area: extra.area, ...extra.request }
+    );
+}
+
+describe('table allocation', () => {
+    it('picks the tightest free table', async () => {
+        expect((await check({ tables, combinations }, '19:00', 2)).tableIds).toEqual(['t2']);
+        expect((await check({ tables, combinations }, '19:00', 4)).tableIds).toEqual(['t4']);
+    });
+
+    it('prefers a single table over a combination of the same size', async () => {
+        expect((await check({ tables, combinations }, '19:00', 6)).tableIds).toEqual(['p6']);
+    });
+
+    it('joins tables when no single table is free', async () => {
+        const bookings = [booking('19:00', 5, ['p6'])];
+        expect((await check({ tables, combinations, bookings }, '19:00', 6)).tableIds).toEqual(['t2', 't4']);
+    });
+
+    it('keeps tables held by other bookings, assigned or not', async () => {
+        const bookings = [booking('19:00', 2, ['t2']), booking('19:00', 4)];
+        const result = await check({ tables, combinations, bookings }, '19:00', 3);
+        expect(result.available).toBe(true);
+        expect(result.tableIds).toEqual(['p6']);
+    });
+
+    it('respects a requested area', async () => {
+        expect((await check({ tables, combinations }, '19:00', 4, { area: 'patio' })).tableIds).toEqual(['p6']);
+        const result = await check({ tables, combinations }, '19:00', 2, { area: 'terrace' });
+        expect(result).toMatchObject({ available: false, reason: 'no_table' });
+        expect(result.message).toMatch(/terrace area/);
+    });
+
+    it('ignores combinations that use an inactive or deleted table', async () => {
+        const broken = [{ ...combinations[0], table_ids: ['t2', 'gone'] }];
+        const bookings = [booking('19:00', 5, ['p6'])];
+        expect((await check({ tables, combinations: broken, bookings }, '19:00', 6)).available).toBe(false);
+    });
+
+    it('falls back to total capacity without a floor plan', async () => {
+        const bookings = [booking('19:00', 16)];
+        expect((await check({ bookings }, '19:00', 4)).available).toBe(true);
+        expect((await check({ bookings }, '19:00', 5)).available).toBe(false);
+    });
+
+    it('turns away parties above the maximum size', async () => {
+        expect(await check({ tables, combinations }, '19:00', 13)).toMatchObject({ available: false, reason: 'party_too_large' });
+    });
+});
+
+describe('getTurnTime', () => {
+    const withRules = {
+        default_turn_minutes: 90,
+        turn_time_rules: [
+            { minPartySize: 6, minutes: 120 },
+            { service: 'lunch', minPartySize: 6, minutes: 75 }
+        ]
+    };
+
+    it('prefers a service-specific rule, then a general one, then the default', () => {
+        expect(availabilityService.getTurnTime(withRules, 6, 'lunch')).toBe(75);
+        expect(availabilityService.getTurnTime(withRules, 6, 'dinner')).toBe(120);
+        expect(availabilityService.getTurnTime(withRules, 2, 'dinner')).toBe(90);
+    });
+});
+
+describe('validateTurnTimeRules', () => {
+    it('requires a list of rules with positive minutes', () => {
+        expect(availabilityService.validateTurnTimeRules([{ minutes: 120, minPartySize: 6 }])).toBeNull();
+        expect(availabilityService.validateTurnTimeRules({})).toMatch(/must be a list/);
+        expect(availabilityService.validateTurnTimeRules([{ minutes: 0 }])).toMatch(/positive number/);
+        expect(availabilityService.validateTurnTimeRules([{ minutes: 60, minPartySize: 8, maxPartySize: 4 }])).toMatch(/minPartySize/);
+    });
+});
+
+describe('seated interval', () => {
+    it('frees tables once an earlier booking has finished', async () => {
+        const bookings = [booking('17:00', 2, ['t2'])];
+        expect((await check({ tables, combinations, bookings }, '18:30', 2)).tableIds).toEqual(['t2']);
+    });
+
+    it('holds tables for bookings that overlap the requested time', async () => {
+        const bookings = [booking('18:00', 2, ['t2'])];
+        expect((await check({ tables, combinations, bookings }, '19:00', 2)).tableIds).toEqual(['t4']);
+    });
+
+    it('counts peak covers when there is no floor plan', async () => {
+        const bookings = [booking('19:00', 16)];
+        expect((await check({ bookings }, '19:30', 5)).available).toBe(false);
+        expect((await check({ bookings }, '20:30', 12)).available).toBe(true);
+    });
+});
+
+describe('pacing', () => {
+    const paced = { restaurant: { pacing_interval_minutes: 15, pacing_rules: [{ maxCovers: 8, maxParties: 2 }] } };
+
+    it('limits covers arriving in the same interval', async () => {
+        const bookings = [booking('19:00', 6)];
+        expect((await check({ bookings }, '19:10', 2, paced)).available).toBe(true);
+        expect(await check({ bookings }, '19:10', 3, paced)).toMatchObject({ available: false, reason: 'pacing' });
+        expect((await check({ bookings }, '19:15', 3, paced)).available).toBe(true);
+    });
+
+    it('limits parties arriving in the same interval', async () => {
+        const bookings = [booking('19:00', 2), booking('19:05', 2)];
+        expect(await check({ bookings }, '19:10', 2, paced)).toMatchObject({ available: false, reason: 'pacing' });
+    });
+});
+
+describe('validatePacingRules', () => {
+    it('requires a positive cover or party limit on each rule', () => {
+        expect(availabilityService.validatePacingRules([{ maxCovers: 20 }])).toBeNull();
+        expect(availabilityService.validatePacingRules({})).toMatch(/must be a list/);
+        expect(availabilityService.validatePacingRules([{ service: 'dinner' }])).toMatch(/maxCovers or maxParties/);
+        expect(availabilityService.validatePacingRules([{ maxParties: -1 }])).toMatch(/positive/);
+    });
+});
+
+describe('validateServiceSettings', () => {
+    it('accepts values inside the ranges', () => {
+        expect(availabilityService.validateServiceSettings({ pacing_interval_minutes: 15, default_turn_minutes: 90 })).toBeNull();
+        expect(availabilityService.validateServiceSettings({
+            pacing_interval_minutes: PACING_INTERVAL_RANGE.min,
+            default_turn_minutes: DEFAULT_TURN_RANGE.max
+        })).toBeNull();
+        expect(availabilityService.validateServiceSettings({})).toBeNull();
+    });
+
+    it('rejects a zero, fractional or out-of-range pacing interval', () => {
+        for (const value of [0, -15, 2.5, PACING_INTERVAL_RANGE.max + 1, '15', null]) {
+            expect(availabilityService.validateServiceSettings({ pacing_interval_minutes: value })).toMatch(/Pacing interval/);
+        }
+    });
+
+    it('rejects an out-of-range default turn time', () => {
+        for (const value of [0, DEFAULT_TURN_RANGE.min - 1, DEFAULT_TURN_RANGE.max + 1, 90.5]) {
+            expect(availabilityService.validateServiceSettings({ default_turn_minutes: value })).toMatch(/Default turn time/);
+        }
+    });
+});
+
+describe('getPacingInterval', () => {
+    it('defaults to 15 minutes and never drops below the minimum', () => {
+        expect(availabilityService.getPacingInterval({})).toBe(15);
+        expect(availabilityService.getPacingInterval({ pacing_interval_minutes: 30 })).toBe(30);
+        expect(availabilityService.getPacingInterval({ pacing_interval_minutes: 1 })).toBe(PACING_INTERVAL_RANGE.min);
+        expect(availabilityService.getPacingInterval({ pacing_interval_minutes: -10 })).toBe(PACING_INTERVAL_RANGE.min);
+    });
+});
+
+describe('validateBookingWindow', () => {
+    it('checks each setting', () => {
+        expect(availabilityService.validateBookingWindow({ advance_booking_days: 60, min_lead_minutes: 0, same_day_cutoff: '15:00' })).toBeNull();
+        expect(availabilityService.validateBookingWindow({ advance_booking_days: 0 })).toMatch(/Advance booking days/);
+        expect(availabilityService.validateBookingWindow({ min_lead_minutes: -1 })).toMatch(/Minimum notice/);
+        expect(availabilityService.validateBookingWindow({ same_day_cutoff: '3pm' })).toMatch(/Same-day cutoff/);
+    });
+});
+
+describe('walk-ins', () => {
+    it('only need a free table, not pacing room', async () => {
+        const paced = { restaurant: { pacing_rules: [{ maxParties: 1 }] } };
+        const bookings = [booking('19:00', 2, ['t2'])];
+        expect((await check({ tables, combinations, bookings }, '19:05', 2, paced)).reason).toBe('pacing');
+        const walkIn = await check({ tables, combinations, bookings }, '19:05', 2, { ...paced, request: { ignoreServiceRules: true } });
+        expect(walkIn).toMatchObject({ available: true, tableIds: ['t4'] });
+    });
+});
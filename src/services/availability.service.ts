@@ -0,0 +1,693 @@
+import supabase from '../config/supabase';
+import hoursService, { ServicePeriod } from './hours.service';
+import { addDays, daysBetween, minutesToTime, normalizeTime, restaurantTimeZone, timeToMinutes, toZonedDateTime } from '../utils/datetime';
+import { ACTIVE_BOOKING_STATUSES, holdsTable } from '../utils/bookingStatus';
+
+export interface DiningTable {
+    id: string;
+    name: string;
+    area: string;
+    min_seats: number;
+    max_seats: number;
+    is_active?: boolean;
+}
+
+export interface TableCombination {
+    id: string;
+    name: string;
+    table_ids: string[];
+    min_seats: number;
+    max_seats: number;
+    is_active?: boolean;
+}
+
+export interface TurnTimeRule {
+    service?: string;
+    minPartySize?: number;
+    maxPartySize?: number;
+    minutes: number;
+}
+
+export interface PacingRule {
+    service?: string;
+    maxCovers?: number;
+    maxParties?: number;
+}
+
+export interface AvailabilityRequest {
+    date: string;
+    time: string;
+    partySize: number;
+    area?: string;
+    excludeBookingId?: string;
+    additionalBookings?: any[]; // Not saved yet, e.g. earlier rows of an import
+    ignoreBookingWindow?: boolean; // Imports may fall outside the online booking window
+    ignoreServiceRules?: boolean; // Walk-ins: only the floor plan counts, not hours, pacing, the window or max party size
+}
+
+type DayOptions = Pick<AvailabilityRequest, 'excludeBookingId' | 'additionalBookings' | 'ignoreBookingWindow' | 'ignoreServiceRules'>;
+
+export interface AvailabilityResult {
+    available: boolean;
+    reason?: 'party_too_large' | 'no_table' | 'restaurant_not_found' | 'closed' | 'outside_hours' | 'pacing'
+        | 'in_the_past' | 'too_far_ahead' | 'too_soon' | 'same_day_cutoff';
+    message?: string;
+    tableIds?: string[];
+    servicePeriod?: string;
+    durationMinutes?: number;
+    suggestions?: string[];
+    alternativeDays?: SlotSuggestion[];
+}
+
+export interface SlotSuggestion {
+    date: string;
+    time: string;
+}
+
+export interface SuggestionOptions {
+    limit?: number;
+    includeAdjacentDays?: boolean;
+}
+
+interface SeatingOption {
+    tableIds: string[];
+    minSeats: number;
+    maxSeats: number;
+    area: string;
+}
+
+interface DayContext {
+    restaurant: any;
+    date: string;
+    now: Date;
+    periods: ServicePeriod[] | null;
+    note?: string;
+    tables: DiningTable[];
+    combinations: TableCombination[];
+    bookings: any[];
+    ignoreBookingWindow?: boolean;
+    ignoreServiceRules?: boolean;
+}
+
+const SUGGESTION_WINDOW_MINUTES = 120;
+
+/** Allowed range for the slot grid; the lower bound also keeps slot loops finite */
+export const PACING_INTERVAL_RANGE = { min: 5, max: 120 };
+
+/** Allowed range for the default dining duration */
+export const DEFAULT_TURN_RANGE = { min: 15, max: 480 };
+
+/** Reasons where a nearby time or day might work instead */
+const SUGGESTIBLE_REASONS: AvailabilityResult['reason'][] = [
+    'no_table',
+    'pacing',
+    'too_soon',
+    'in_the_past',
+    'outside_hours',
+    'closed',
+    'same_day_cutoff'
+];
+
+export class AvailabilityService {
+    /**
+     * Check whether a party can be seated at a table or combination
+     */
+    async checkAvailability(
+        restaurant: any,
+        request: AvailabilityRequest,
+        options: SuggestionOptions = {}
+    ): Promise<AvailabilityResult> {
+        if (!restaurant) {
+            return { available: false, reason: 'restaurant_not_found', message: 'Restaurant not found.' };
+        }
+
+        const partySize = Number(request.partySize);
+        const maxPartySize = restaurant.max_party_size || 10;
+
+        if (partySize > maxPartySize && !request.ignoreServiceRules) {
+            return {
+                available: false,
+                reason: 'party_too_large',
+                message: `We can only take bookings for up to ${maxPartySize} guests. Larger parties can send a request for the restaurant to review.`
+            };
+        }
+
+        const day = await this.loadDay(restaurant, request.date, request);
+        const result = this.evaluate(day, request.time, partySize, request.area);
+
+        // Point the guest at the nearest times, and optionally days, that do work
+        if (!result.available && SUGGESTIBLE_REASONS.includes(result.reason)) {
+            const { times, adjacentDays } = await this.collectSuggestions(day, request, partySize, options);
+            if (times.length > 0) {
+                result.suggestions = times;
+                result.message = `${result.message} We could seat you at ${times.join(', ')}.`;
+            }
+            if (adjacentDays.length > 0) {
+                result.alternativeDays = adjacentDays;
+                result.message = `${result.message} ${request.time} is free on ${adjacentDays.map(s => s.date).join(' and ')}.`;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Nearest bookable times to a request from our own bookings, hours, pacing and floor plan,
+     * optionally with the same time on the day before and after
+     */
+    async suggestTimes(
+        restaurant: any,
+        request: AvailabilityRequest,
+        options: SuggestionOptions = {}
+    ): Promise<{ times: string[]; adjacentDays: SlotSuggestion[] }> {
+        const partySize = Number(request.partySize);
+        if (!restaurant || partySize > (restaurant.max_party_size || 10)) {
+            return { times: [], adjacentDays: [] };
+        }
+
+        const day = await this.loadDay(restaurant, request.date, request);
+        return this.collectSuggestions(day, request, partySize, options);
+    }
+
+    private async collectSuggestions(
+        day: DayContext,
+        request: AvailabilityRequest,
+        partySize: number,
+        options: SuggestionOptions
+    ): Promise<{ times: string[]; adjacentDays: SlotSuggestion[] }> {
+        const times = this.findNearbyTimes(day, request.time, partySize, request.area, options.limit || 3);
+        const adjacentDays: SlotSuggestion[] = [];
+
+        if (options.includeAdjacentDays) {
+            for (const date of [addDays(request.date, -1), addDays(request.date, 1)]) {
+                const adjacent = await this.loadDay(day.restaurant, date, request);
+                if (this.evaluate(adjacent, request.time, partySize, request.area).available) {
+                    adjacentDays.push({ date, time: request.time });
+                }
+            }
+        }
+
+        return { times, adjacentDays };
+    }
+
+    /**
+     * Bookable times on a date for a party, on the pacing slot grid
+     */
+    async findAvailableTimes(
+        restaurant: any,
+        date: string,
+        partySize: number,
+        options: { from?: string; to?: string; area?: string; limit?: number } = {}
+    ): Promise<string[]> {
+        if (!restaurant || partySize > (restaurant.max_party_size || 10)) return [];
+
+        const day = await this.loadDay(restaurant, date);
+        const step = this.getPacingInterval(restaurant);
+        const from = Math.ceil(timeToMinutes(options.from || '00:00') / step) * step;
+        const to = timeToMinutes(options.to || '23:59');
+        const times: string[] = [];
+
+        for (let minutes = from; minutes <= to && times.length < (options.limit || Infinity); minutes += step) {
+            const time = minutesToTime(minutes);
+            if (this.evaluate(day, time, partySize, options.area).available) {
+                times.push(time);
+            }
+        }
+
+        return times;
+    }
+
+    /**
+     * Load everything needed to evaluate availability on a date
+     */
+    private async loadDay(restaurant: any, date: string, options: DayOptions = {}): Promise<DayContext> {
+        let bookingsQuery = supabase
+            .from('bookings')
+            .select('id, booking_time, party_size, duration_minutes, table_ids, status, payment_expires_at')
+            .eq('restaurant_id', restaurant.id)
+            .eq('booking_date', date)
+            .in('status', ACTIVE_BOOKING_STATUSES);
+
+        if (options.excludeBookingId) {
+            bookingsQuery = bookingsQuery.neq('id', options.excludeBookingId);
+        }
+
+        const [{ periods, note }, { tables, combinations }, { data: bookings }] = await Promise.all([
+            hoursService.getServicePeriods(restaurant, date),
+            this.loadFloorPlan(restaurant.id),
+            bookingsQuery
+        ]);
+
+        const unsaved = (options.additionalBookings || []).filter(b => b.booking_date === date);
+
+        // Parties still seated past their turn time keep their table until it is freed
+        const now = toZonedDateTime(new Date(), restaurantTimeZone(restaurant));
+        const overrun = (b: any, duration: number) => {
+            if (b.status !== 'seated' || date !== now.date) return duration;
+            return Math.max(duration, timeToMinutes(now.time) - timeToMinutes(b.booking_time) + 1);
+        };
+
+        return {
+            restaurant,
+            date,
+            now: new Date(),
+            periods,
+            note,
+            tables,
+            combinations,
+            bookings: [...(bookings || []).filter(b => holdsTable(b)), ...unsaved].map(b => ({
+                ...b,
+                duration_minutes: overrun(b, b.duration_minutes || this.getTurnTime(restaurant, b.party_size || 1))
+            })),
+            ignoreBookingWindow: options.ignoreBookingWindow,
+            ignoreServiceRules: options.ignoreServiceRules
+        };
+    }
+
+    /**
+     * Evaluate a single time against hours, pacing and the floor plan
+     */
+    private evaluate(day: DayContext, time: string, partySize: number, area?: string): AvailabilityResult {
+        const skipRules = !!day.ignoreServiceRules;
+        const windowCheck = day.ignoreBookingWindow || skipRules ? null : this.checkBookingWindow(day.restaurant, day.date, time, day.now);
+        if (windowCheck) return windowCheck;
+
+        const hours = hoursService.evaluateOpeningHours(day.periods, day.date, time, day.note);
+        if (!hours.open && !skipRules) {
+            return { available: false, reason: hours.reason, message: hours.message };
+        }
+
+        const servicePeriod = hours.period?.name;
+        const durationMinutes = this.getTurnTime(day.restaurant, partySize, servicePeriod);
+
+        const pacingMessage = skipRules ? null : this.checkPacing(day, time, partySize, servicePeriod);
+        if (pacingMessage) {
+            return { available: false, reason: 'pacing', message: pacingMessage, servicePeriod };
+        }
+
+        const bookings = this.getOverlappingBookings(day.bookings, time, durationMinutes);
+
+        // No floor plan configured yet: fall back to total headcount
+        if (day.tables.length === 0) {
+            const seatedCovers = this.getPeakCovers(bookings, time, durationMinutes);
+            const available = (day.restaurant.capacity || 50) - seatedCovers >= partySize;
+            return available
+                ? { available: true, servicePeriod, durationMinutes }
+                : {
+                    available: false,
+                    reason: 'no_table',
+                    message: `Sorry, we don't have a table for ${partySize} guests at that time.`,
+                    servicePeriod
+                };
+        }
+
+        const options = this.buildSeatingOptions(day.tables, day.combinations);
+        const occupied = this.allocateExistingBookings(bookings, options);
+        const seating = this.findSeating(partySize, options, occupied, area);
+
+        if (!seating) {
+            const where = area ? ` in the ${area} area` : '';
+            return {
+                available: false,
+                reason: 'no_table',
+                message: `Sorry, we don't have a table for ${partySize} guests${where} at that time.`,
+                servicePeriod
+            };
+        }
+
+        return { available: true, tableIds: seating.tableIds, servicePeriod, durationMinutes };
+    }
+
+    /**
+     * Check covers and parties arriving in the same pacing interval, returns a message when saturated
+     */
+    private checkPacing(day: DayContext, time: string, partySize: number, servicePeriod?: string): string | null {
+        const rule = this.getPacingRule(day.restaurant, servicePeriod);
+        if (!rule) return null;
+
+        const interval = this.getPacingInterval(day.restaurant);
+        const slotStart = Math.floor(timeToMinutes(time) / interval) * interval;
+        const arrivals = day.bookings.filter(b => {
+            const start = timeToMinutes(b.booking_time);
+            return start >= slotStart && start < slotStart + interval;
+        });
+
+        const covers = arrivals.reduce((sum, b) => sum + (b.party_size || 0), 0);
+        const slotLabel = minutesToTime(slotStart);
+
+        if (rule.maxCovers && covers + partySize > rule.maxCovers) {
+            return `Sorry, we can't take any more guests arriving around ${slotLabel}.`;
+        }
+        if (rule.maxParties && arrivals.length + 1 > rule.maxParties) {
+            return `Sorry, we can't take any more parties arriving around ${slotLabel}.`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Nearest bookable times to the requested one, alternating later and earlier
+     */
+    private findNearbyTimes(day: DayContext, time: string, partySize: number, area: string | undefined, limit: number): string[] {
+        const step = this.getPacingInterval(day.restaurant);
+        const base = Math.floor(timeToMinutes(time) / step) * step; // Stay on the slot grid
+        const found: string[] = [];
+
+        for (let offset = step; offset <= SUGGESTION_WINDOW_MINUTES && found.length < limit; offset += step) {
+            for (const candidate of [base + offset, base - offset]) {
+                if (candidate < 0 || candidate >= 24 * 60 || found.length >= limit) continue;
+                const candidateTime = minutesToTime(candidate);
+                if (this.evaluate(day, candidateTime, partySize, area).available) {
+                    found.push(candidateTime);
+                }
+            }
+        }
+
+        return found;
+    }
+
+    /**
+     * Check the advance booking window, minimum notice and same-day cutoff, returns null when bookable
+     */
+    checkBookingWindow(restaurant: any, date: string, time: string, now: Date = new Date()): AvailabilityResult | null {
+        // Compare against the restaurant's wall clock, not the server's
+        const today = toZonedDateTime(now, restaurantTimeZone(restaurant));
+        const daysAhead = daysBetween(today.date, date);
+        const minutesAhead = daysAhead * 1440 + timeToMinutes(time) - timeToMinutes(today.time);
+
+        if (minutesAhead <= 0) {
+            return { available: false, reason: 'in_the_past', message: 'That time has already passed.' };
+        }
+
+        const maxDays = restaurant?.advance_booking_days || 30;
+        if (daysAhead > maxDays) {
+            return {
+                available: false,
+                reason: 'too_far_ahead',
+                message: `We only take bookings up to ${maxDays} days ahead.`
+            };
+        }
+
+        const cutoff = normalizeTime(restaurant?.same_day_cutoff);
+        if (daysAhead === 0 && cutoff && timeToMinutes(today.time) >= timeToMinutes(cutoff)) {
+            return {
+                available: false,
+                reason: 'same_day_cutoff',
+                message: `We stop taking same-day bookings at ${cutoff}.`
+            };
+        }
+
+        const leadMinutes = restaurant?.min_lead_minutes ?? 30;
+        if (minutesAhead < leadMinutes) {
+            return {
+                available: false,
+                reason: 'too_soon',
+                message: `Bookings need at least ${this.describeMinutes(leadMinutes)} notice.`
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Validate booking window settings before saving, returns an error message or null
+     */
+    validateBookingWindow(settings: any): string | null {
+        const { advance_booking_days, min_lead_minutes, same_day_cutoff } = settings;
+
+        if (advance_booking_days !== undefined && !(Number.isInteger(advance_booking_days) && advance_booking_days > 0)) {
+            return 'Advance booking days must be a positive whole number';
+        }
+        if (min_lead_minutes !== undefined && !(Number.isInteger(min_lead_minutes) && min_lead_minutes >= 0)) {
+            return 'Minimum notice must be zero or more minutes';
+        }
+        if (same_day_cutoff && !/^\d{2}:\d{2}(:\d{2})?$/.test(same_day_cutoff)) {
+            return 'Same-day cutoff must be a time in HH:MM format';
+        }
+
+        return null;
+    }
+
+    /**
+     * Dining duration in minutes for a party size and service period
+     */
+    getTurnTime(restaurant: any, partySize: number, servicePeriod?: string): number {
+        const fallback = restaurant?.default_turn_minutes || 90;
+        const rules = this.parseRules<TurnTimeRule>(restaurant?.turn_time_rules)
+            .filter(rule => typeof rule.minutes === 'number');
+
+        const matches = rules.filter(rule =>
+            partySize >= (rule.minPartySize || 1) &&
+            partySize <= (rule.maxPartySize || Infinity) &&
+            (!rule.service || rule.service.toLowerCase() === servicePeriod?.toLowerCase())
+        );
+
+        // Rules for the specific service win over service-agnostic ones
+        const match = matches.find(rule => rule.service) || matches[0];
+        return match ? match.minutes : fallback;
+    }
+
+    /**
+     * Dining duration for a booking that isn't going through a full availability check
+     */
+    async getBookingDuration(restaurant: any, date: string, time: string, partySize: number): Promise<number> {
+        if (!restaurant) return this.getTurnTime(restaurant, partySize);
+
+        const hours = await hoursService.checkOpeningHours(restaurant, date, normalizeTime(time) || time);
+        return this.getTurnTime(restaurant, partySize, hours.period?.name);
+    }
+
+    /**
+     * Validate turn time rules before saving, returns an error message or null
+     */
+    validateTurnTimeRules(raw: any): string | null {
+        if (!Array.isArray(raw)) return 'Turn time rules must be a list';
+
+        for (const rule of raw) {
+            if (!rule || typeof rule.minutes !== 'number' || rule.minutes <= 0) {
+                return 'Each turn time rule needs a positive number of minutes';
+            }
+            if (rule.minPartySize && rule.maxPartySize && rule.minPartySize > rule.maxPartySize) {
+                return 'minPartySize cannot exceed maxPartySize';
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Minutes between bookable slots, never below the minimum even if a bad value was stored
+     */
+    getPacingInterval(restaurant: any): number {
+        const interval = Number(restaurant?.pacing_interval_minutes) || 15;
+        return Math.max(interval, PACING_INTERVAL_RANGE.min);
+    }
+
+    /**
+     * Validate the slot interval and default turn time before saving, returns an error message or null
+     */
+    validateServiceSettings(settings: any): string | null {
+        const { pacing_interval_minutes, default_turn_minutes } = settings;
+
+        if (pacing_interval_minutes !== undefined && !this.isWholeNumberIn(pacing_interval_minutes, PACING_INTERVAL_RANGE)) {
+            return `Pacing interval must be a whole number of minutes from ${PACING_INTERVAL_RANGE.min} to ${PACING_INTERVAL_RANGE.max}`;
+        }
+        if (default_turn_minutes !== undefined && !this.isWholeNumberIn(default_turn_minutes, DEFAULT_TURN_RANGE)) {
+            return `Default turn time must be a whole number of minutes from ${DEFAULT_TURN_RANGE.min} to ${DEFAULT_TURN_RANGE.max}`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Validate pacing rules before saving, returns an error message or null
+     */
+    validatePacingRules(raw: any): string | null {
+        if (!Array.isArray(raw)) return 'Pacing rules must be a list';
+
+        for (const rule of raw) {
+            if (!rule || (!rule.maxCovers && !rule.maxParties)) {
+                return 'Each pacing rule needs maxCovers or maxParties';
+            }
+            if ((rule.maxCovers && rule.maxCovers <= 0) || (rule.maxParties && rule.maxParties <= 0)) {
+                return 'Pacing limits must be positive';
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Load active tables and combinations for a restaurant
+     */
+    async loadFloorPlan(restaurantId: string): Promise<{ tables: DiningTable[]; combinations: TableCombination[] }> {
+        const [{ data: tables }, { data: combinations }] = await Promise.all([
+            supabase
+                .from('tables')
+                .select('*')
+                .eq('restaurant_id', restaurantId)
+                .eq('is_active', true),
+            supabase
+                .from('table_combinations')
+                .select('*')
+                .eq('restaurant_id', restaurantId)
+                .eq('is_active', true)
+        ]);
+
+        return {
+            tables: (tables || []) as DiningTable[],
+            combinations: (combinations || []) as TableCombination[]
+        };
+    }
+
+    private getPacingRule(restaurant: any, servicePeriod?: string): PacingRule | null {
+        const rules = this.parseRules<PacingRule>(restaurant?.pacing_rules);
+        return rules.find(rule => rule.service && rule.service.toLowerCase() === servicePeriod?.toLowerCase())
+            || rules.find(rule => !rule.service)
+            || null;
+    }
+
+    private describeMinutes(minutes: number): string {
+        if (minutes < 60 || minutes % 60 !== 0) return `${minutes} minutes`;
+        const hours = minutes / 60;
+        return hours === 1 ? '1 hour' : `${hours} hours`;
+    }
+
+    private isWholeNumberIn(value: any, range: { min: number; max: number }): boolean {
+        return Number.isInteger(value) && value >= range.min && value <= range.max;
+    }
+
+    private parseRules<T>(raw: any): T[] {
+        let value = raw;
+        if (typeof value === 'string') {
+            try {
+                value = JSON.parse(value);
+            } catch {
+                return [];
+            }
+        }
+        return Array.isArray(value) ? value.filter(Boolean) : [];
+    }
+
+    /**
+     * Bookings whose seated interval overlaps the requested one
+     */
+    private getOverlappingBookings(bookings: any[], time: string, durationMinutes: number): any[] {
+        const start = timeToMinutes(time);
+        const end = start + durationMinutes;
+
+        return bookings.filter(b => {
+            const bookingStart = timeToMinutes(b.booking_time);
+            return bookingStart < end && start < bookingStart + b.duration_minutes;
+        });
+    }
+
+    /**
+     * Highest number of guests seated at once during the requested interval
+     */
+    private getPeakCovers(bookings: any[], time: string, durationMinutes: number): number {
+        const start = timeToMinutes(time);
+        const end = start + durationMinutes;
+
+        // Occupancy only rises when a booking starts, so check the window start and each arrival inside it
+        const checkpoints = [start, ...bookings
+            .map(b => timeToMinutes(b.booking_time))
+            .filter(t => t > start && t < end)];
+
+        return Math.max(0, ...checkpoints.map(point =>
+            bookings
+                .filter(b => {
+                    const bookingStart = timeToMinutes(b.booking_time);
+                    return bookingStart <= point && point < bookingStart + b.duration_minutes;
+                })
+                .reduce((sum, b) => sum + (b.party_size || 0), 0)
+        ));
+    }
+
+    /**
+     * Turn single tables and configured combinations into seating options
+     */
+    private buildSeatingOptions(tables: DiningTable[], combinations: TableCombination[]): SeatingOption[] {
+        const tablesById = new Map(tables.map(t => [t.id, t]));
+
+        const options: SeatingOption[] = tables.map(t => ({
+            tableIds: [t.id],
+            minSeats: t.min_seats || 1,
+            maxSeats: t.max_seats,
+            area: t.area || 'main'
+        }));
+
+        for (const combo of combinations) {
+            // Skip combinations that reference inactive or deleted tables
+            const members = (combo.table_ids || []).map(id => tablesById.get(id));
+            if (members.length < 2 || members.some(m => !m)) continue;
+
+            options.push({
+                tableIds: combo.table_ids,
+                minSeats: combo.min_seats || 1,
+                maxSeats: combo.max_seats,
+                area: members[0]!.area || 'main'
+            });
+        }
+
+        return options;
+    }
+
+    /**
+     * Work out which tables existing bookings are sitting at
+     */
+    private allocateExistingBookings(bookings: any[], options: SeatingOption[]): Set<string> {
+        const occupied = new Set<string>();
+
+        // Bookings with assigned tables hold them first
+        for (const booking of bookings) {
+            if (Array.isArray(booking.table_ids) && booking.table_ids.length > 0) {
+                booking.table_ids.forEach((id: string) => occupied.add(id));
+            }
+        }
+
+        // Seat the rest largest-first so big parties get the big tables.
+        // Overlapping bookings may not overlap each other, so this errs on the side of not overbooking.
+        const unassigned = bookings
+            .filter(b => !Array.isArray(b.table_ids) || b.table_ids.length === 0)
+            .sort((a, b) => (b.party_size || 0) - (a.party_size || 0));
+
+        for (const booking of unassigned) {
+            const seating = this.findSeating(booking.party_size || 1, options, occupied);
+            // Bookings that no longer fit the floor plan (e.g. after tables were removed) are skipped
+            if (seating) {
+                seating.tableIds.forEach(id => occupied.add(id));
+            }
+        }
+
+        return occupied;
+    }
+
+    /**
+     * Pick the tightest free table or combination for a party
+     */
+    private findSeating(
+        partySize: number,
+        options: SeatingOption[],
+        occupied: Set<string>,
+        area?: string
+    ): SeatingOption | null {
+        const candidates = options.filter(o =>
+            partySize >= o.minSeats &&
+            partySize <= o.maxSeats &&
+            (!area || o.area.toLowerCase() === area.toLowerCase()) &&
+            o.tableIds.every(id => !occupied.has(id))
+        );
+
+        if (candidates.length === 0) return null;
+
+        // Fewest empty seats first, then fewest tables joined together
+        candidates.sort((a, b) =>
+            (a.maxSeats - b.maxSeats) || (a.tableIds.length - b.tableIds.length)
+        );
+
+        return candidates[0];
+    }
+}
+
+export default new AvailabilityService();
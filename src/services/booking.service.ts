@@ -0,0 +1,661 @@
+import supabase from '../config/supabase';
+import emailService from './email.service';
+import hubspotService from './hubspot.service';
+import calendarService from './calendar.service';
+import availabilityService, { AvailabilityResult } from './availability.service';
+import waitlistService from './waitlist.service';
+import auditService, { BookingActor } from './audit.service';
+import paymentService, { DepositRequirement, PAYMENT_HOLD_MINUTES } from './payment.service';
+import manageLinkService from './manageLink.service';
+import cancellationPolicyService, { PolicyAssessment } from './cancellationPolicy.service';
+import guestService from './guest.service';
+import { normalizeTime, restaurantTimeZone, zonedTimeToUtc } from '../utils/datetime';
+import { CODE_LENGTH, confirmationCodeCandidates, generateConfirmationCode } from '../utils/confirmationCode';
+import { BookingStatus, EDITABLE_BOOKING_STATUSES, STATUS_TIMESTAMP_COLUMNS, canTransition } from '../utils/bookingStatus';
+import { publishFloorChange } from '../utils/floorEvents';
+
+/** HubSpot deal stage reached by each status; seating leaves the deal untouched */
+const HUBSPOT_STAGES: Partial<Record<BookingStatus, 'confirmed' | 'cancelled' | 'completed' | 'no_show'>> = {
+    confirmed: 'confirmed',
+    completed: 'completed',
+    no_show: 'no_show',
+    cancelled: 'cancelled'
+};
+
+export interface NewBookingInput {
+    guestName: string;
+    guestEmail?: string;
+    guestPhone?: string;
+    date: string;
+    time: string;
+    partySize: number;
+    specialRequests?: string;
+    area?: string;
+    confirmationNumber?: string;
+    tableIds?: string[]; // Chosen by the host, e.g. for a walk-in
+}
+
+export interface CreateBookingOptions {
+    source: string;
+    skipAvailabilityCheck?: boolean;
+    notifyGuest?: boolean;
+    notifyRestaurant?: boolean;
+    actor?: BookingActor;
+    idempotencyKey?: string; // Repeats with the same key return the original booking without side effects
+    ignoreBookingWindow?: boolean;
+    ignoreServiceRules?: boolean; // Staff decisions: only free tables count, not hours, pacing or max party size
+    skipPayment?: boolean; // Imported bookings settled any deposit in the old system
+    syncIntegrations?: boolean; // HubSpot and Google Calendar, defaults to true
+}
+
+export interface CreateBookingResult {
+    success: boolean;
+    booking?: any;
+    availability?: AvailabilityResult;
+    payment?: any;
+    paymentRequired?: DepositRequirement;
+    duplicate?: boolean;
+    error?: string;
+}
+
+export interface UpdateBookingResult {
+    success: boolean;
+    booking?: any;
+    availability?: AvailabilityResult;
+    notEditable?: boolean;
+    error?: string;
+}
+
+export interface TransitionResult {
+    success: boolean;
+    booking?: any;
+    policy?: PolicyAssessment;
+    error?: string;
+    invalidTransition?: boolean;
+}
+
+export interface UpdateBookingOptions {
+    notifyGuest?: boolean; // Modification email with an updated invite, defaults to true
+}
+
+export interface TransitionOptions {
+    waivePenalty?: boolean; // Staff can let a late cancellation or no-show off
+    notifyGuest?: boolean; // Cancellation email with a calendar CANCEL, defaults to true
+}
+
+export class BookingService {
+    /**
+     * Create a booking and run confirmation, HubSpot and calendar side effects
+     */
+    async createBooking(restaurant: any, input: NewBookingInput, options: CreateBookingOptions): Promise<CreateBookingResult> {
+        // A retried request returns what the first one created; checked before availability,
+        // which the original booking would now fail
+        if (options.idempotencyKey) {
+            const original = await this.findIdempotentBooking(restaurant.id, options.idempotencyKey);
+            if (original) return original;
+        }
+
+        const time = normalizeTime(input.time)!;
+
+        let availability: AvailabilityResult;
+        if (options.skipAvailabilityCheck) {
+            availability = {
+                available: true,
+                durationMinutes: await availabilityService.getBookingDuration(restaurant, input.date, time, input.partySize)
+            };
+        } else {
+            availability = await availabilityService.checkAvailability(restaurant, {
+                date: input.date,
+                time,
+                partySize: input.partySize,
+                area: input.area,
+                ignoreBookingWindow: options.ignoreBookingWindow,
+                ignoreServiceRules: options.ignoreServiceRules
+            });
+
+            if (!availability.available) {
+                return { success: false, availability, error: availability.message };
+            }
+        }
+
+        // Bookings that need a deposit or card guarantee are held until it is paid
+        const deposit = options.skipPayment
+            ? null
+            : paymentService.getDepositRequirement(restaurant, input.date, input.partySize, availability.servicePeriod);
+        if (deposit && !input.guestEmail) {
+            return { success: false, availability, paymentRequired: deposit, error: 'An email address is required to send the payment link' };
+        }
+
+        const confirmationNumber = input.confirmationNumber || await this.generateConfirmationNumber(restaurant.id);
+        const guestId = await guestService.linkGuest(restaurant.id, {
+            name: input.guestName,
+            email: input.guestEmail,
+            phone: input.guestPhone
+        });
+
+        const { data: booking, error: dbError } = await supabase
+            .from('bookings')
+            .insert({
+                restaurant_id: restaurant.id,
+                guest_id: guestId,
+                guest_name: input.guestName,
+                guest_email: input.guestEmail,
+                guest_phone: input.guestPhone,
+                booking_date: input.date,
+                booking_time: time,
+                party_size: input.partySize,
+                duration_minutes: availability.durationMinutes,
+                special_requests: input.specialRequests,
+                table_ids: input.tableIds?.length ? input.tableIds : availability.tableIds || null,
+                confirmation_number: confirmationNumber,
+                status: deposit ? 'pending_payment' : 'confirmed',
+                confirmed_at: deposit ? null : new Date().toISOString(),
+                payment_expires_at: deposit ? new Date(Date.now() + PAYMENT_HOLD_MINUTES * 60000).toISOString() : null,
+                source: options.source,
+                idempotency_key: options.idempotencyKey || null
+            })
+            .select()
+            .single();
+
+        // Lost a race with a concurrent retry of the same request
+        if (dbError?.code === '23505' && options.idempotencyKey) {
+            const original = await this.findIdempotentBooking(restaurant.id, options.idempotencyKey);
+            if (original) return original;
+        }
+
+        if (dbError || !booking) {
+            console.error('Database error:', dbError);
+            return { success: false, availability, error: 'Failed to create booking' };
+        }
+
+        let payment: any;
+        if (deposit) {
+            try {
+                payment = await paymentService.createForBooking(restaurant, booking, deposit);
+            } catch (paymentError) {
+                console.error('Payment link error:', paymentError);
+                await supabase.from('bookings').delete().eq('id', booking.id);
+                return { success: false, availability, error: 'Failed to create payment link' };
+            }
+        }
+
+        await auditService.recordBookingEvent('created', null, booking, options.actor || { type: 'system' });
+        publishFloorChange(restaurant.id);
+
+        await this.syncNewBooking(restaurant, booking, options, payment);
+
+        return { success: true, booking, availability, payment };
+    }
+
+    /**
+     * Short speakable code that no other booking at this restaurant uses
+     */
+    async generateConfirmationNumber(restaurantId: string): Promise<string> {
+        for (let attempt = 0; attempt < 5; attempt++) {
+            const code = generateConfirmationCode();
+            const { data: existing } = await supabase
+                .from('bookings')
+                .select('id')
+                .eq('restaurant_id', restaurantId)
+                .eq('confirmation_number', code)
+                .maybeSingle();
+
+            if (!existing) return code;
+        }
+
+        // Practically unreachable with ~1 billion codes, but never loop forever
+        return generateConfirmationCode(CODE_LENGTH + 2);
+    }
+
+    /**
+     * Find a booking from a confirmation number as a guest said or typed it,
+     * tolerating spacing, dashes, lowercase and phonetic spelling
+     */
+    async findByConfirmationNumber(restaurantId: string, input: string): Promise<any | null> {
+        if (!input) return null;
+
+        const { data: bookings } = await supabase
+            .from('bookings')
+            .select('*')
+            .eq('restaurant_id', restaurantId)
+            .in('confirmation_number', confirmationCodeCandidates(input))
+            .limit(1);
+
+        return bookings?.[0] || null;
+    }
+
+    /**
+     * Booking already created under an idempotency key, with its open payment link if any
+     */
+    private async findIdempotentBooking(restaurantId: string, idempotencyKey: string): Promise<CreateBookingResult | null> {
+        const { data: booking } = await supabase
+            .from('bookings')
+            .select('*')
+            .eq('restaurant_id', restaurantId)
+            .eq('idempotency_key', idempotencyKey)
+            .maybeSingle();
+
+        if (!booking) return null;
+
+        const payments = await paymentService.getBookingPayments(booking.id);
+        const payment = payments.find(p => p.status === 'pending');
+
+        return { success: true, booking, payment, duplicate: true };
+    }
+
+    /**
+     * Change a booking's guest details, slot or party size, re-checking availability when the slot changes
+     */
+    async updateBooking(
+        restaurant: any,
+        existing: any,
+        updates: any,
+        actor: BookingActor,
+        options: UpdateBookingOptions = {}
+    ): Promise<UpdateBookingResult> {
+        if (!EDITABLE_BOOKING_STATUSES.includes(existing.status)) {
+            return { success: false, notEditable: true, error: `A ${existing.status} booking can no longer be edited` };
+        }
+
+        const changes = { ...updates };
+        if (changes.booking_time) changes.booking_time = normalizeTime(changes.booking_time);
+
+        const slotChanged = !!(changes.booking_date || changes.booking_time || changes.party_size);
+
+        // Re-check availability over the new seated interval
+        let availability: AvailabilityResult | undefined;
+        if (slotChanged) {
+            availability = await availabilityService.checkAvailability(restaurant, {
+                date: changes.booking_date || existing.booking_date,
+                time: normalizeTime(changes.booking_time || existing.booking_time)!,
+                partySize: changes.party_size || existing.party_size,
+                excludeBookingId: existing.id
+            });
+
+            if (!availability.available) {
+                return { success: false, availability, error: availability.message };
+            }
+
+            changes.duration_minutes = availability.durationMinutes;
+            changes.table_ids = availability.tableIds || null;
+
+            // Calendar invites for the new time must outrank the ones already sent
+            changes.ics_sequence = (existing.ics_sequence || 0) + 1;
+        }
+
+        // New contact details may belong to a different guest profile
+        const contactChanged = (changes.guest_email !== undefined && changes.guest_email !== existing.guest_email)
+            || (changes.guest_phone !== undefined && changes.guest_phone !== existing.guest_phone);
+        if (contactChanged) {
+            changes.guest_id = await guestService.linkGuest(restaurant.id, {
+                name: changes.guest_name ?? existing.guest_name,
+                email: changes.guest_email !== undefined ? changes.guest_email : existing.guest_email,
+                phone: changes.guest_phone !== undefined ? changes.guest_phone : existing.guest_phone
+            }) || existing.guest_id || null;
+        }
+
+        const { data: booking, error } = await supabase
+            .from('bookings')
+            .update(changes)
+            .eq('id', existing.id)
+            .select()
+            .single();
+
+        if (error || !booking) {
+            console.error('Database error:', error);
+            return { success: false, availability, error: 'Failed to update booking' };
+        }
+
+        await auditService.recordBookingEvent('updated', existing, booking, actor);
+        publishFloorChange(restaurant.id);
+
+        if (slotChanged) {
+            // Update Google Calendar event
+            if (restaurant?.google_calendar_tokens && booking.calendar_event_id) {
+                try {
+                    const timeZone = restaurantTimeZone(restaurant);
+                    const startTime = zonedTimeToUtc(booking.booking_date, booking.booking_time, timeZone);
+                    const endTime = new Date(startTime.getTime() + (booking.duration_minutes || 90) * 60000);
+
+                    await calendarService.updateEvent(JSON.parse(restaurant.google_calendar_tokens), booking.calendar_event_id, {
+                        start: startTime,
+                        end: endTime,
+                        timeZone,
+                        summary: `Reservation: ${booking.guest_name} (${booking.party_size} ppl)`
+                    });
+                } catch (calendarError) {
+                    console.error('Calendar update error:', calendarError);
+                }
+            }
+
+            // Update HubSpot deal
+            if (booking.hubspot_deal_id) {
+                try {
+                    await hubspotService.updateDealStatus(booking.hubspot_deal_id, 'confirmed');
+                } catch (hubspotError) {
+                    console.error('HubSpot update error:', hubspotError);
+                }
+            }
+
+            // Send the guest the new details and an invite that replaces their calendar entry
+            if (booking.guest_email && options.notifyGuest !== false) {
+                try {
+                    await emailService.sendBookingModification({
+                        to: booking.guest_email,
+                        restaurantName: restaurant?.name || 'Restaurant',
+                        guestName: booking.guest_name,
+                        date: booking.booking_date,
+                        time: normalizeTime(booking.booking_time)!,
+                        partySize: booking.party_size,
+                        confirmationNumber: booking.confirmation_number,
+                        manageUrl: manageLinkService.createUrl(booking, restaurantTimeZone(restaurant)),
+                        invite: calendarService.generateBookingInvite(restaurant, booking)
+                    });
+                } catch (emailError) {
+                    console.error('Booking modification email error:', emailError);
+                }
+            }
+        }
+
+        // Let the restaurant know about changes they did not make themselves
+        if (actor.type !== 'staff') {
+            await this.notifyRestaurant(
+                restaurant,
+                'Booking Updated',
+                `${booking.guest_name} changed their booking ${booking.confirmation_number} to ${booking.party_size} guests on ${booking.booking_date} at ${normalizeTime(booking.booking_time)}.`,
+                booking
+            );
+        }
+
+        return { success: true, booking, availability };
+    }
+
+    /**
+     * Cancel a booking, remove it from integrations and offer the slot to the waitlist
+     */
+    async cancelBooking(
+        restaurant: any,
+        booking: any,
+        actor: BookingActor = { type: 'system' },
+        options: TransitionOptions = {}
+    ): Promise<TransitionResult> {
+        return this.transitionBooking(restaurant, booking, 'cancelled', actor, options);
+    }
+
+    /**
+     * Move a booking to a new status, stamping the transition time and syncing integrations.
+     * Cancellations and no-shows are checked against the cancellation policy.
+     */
+    async transitionBooking(
+        restaurant: any,
+        booking: any,
+        to: BookingStatus,
+        actor: BookingActor = { type: 'system' },
+        options: TransitionOptions = {}
+    ): Promise<TransitionResult> {
+        if (!canTransition(booking.status, to)) {
+            return {
+                success: false,
+                invalidTransition: true,
+                error: `Cannot change a ${booking.status} booking to ${to}`
+            };
+        }
+
+        const changes: any = { status: to, [STATUS_TIMESTAMP_COLUMNS[to]]: new Date().toISOString() };
+
+        let policy: PolicyAssessment | undefined;
+        if (to === 'cancelled') {
+            policy = await cancellationPolicyService.assessCancellation(restaurant, booking);
+        } else if (to === 'no_show') {
+            policy = await cancellationPolicyService.assessNoShow(restaurant, booking);
+        }
+        if (policy && options.waivePenalty) {
+            policy = { ...policy, feeCents: 0, depositForfeited: false, message: 'Charges under the cancellation policy were waived.' };
+        }
+        if (policy) {
+            changes.late_cancel = policy.lateCancel;
+            changes.penalty_cents = policy.feeCents;
+        }
+        if (to === 'cancelled') {
+            changes.ics_sequence = (booking.ics_sequence || 0) + 1;
+        }
+        if (to === 'seated') {
+            changes.service_stage = 'seated';
+        }
+        if (to === 'completed') {
+            // Freeing the table ends the turn; the actual length feeds turn time statistics
+            changes.table_freed_at = changes.completed_at;
+            if (booking.seated_at) {
+                changes.actual_turn_minutes = Math.max(0, Math.round((Date.parse(changes.completed_at) - Date.parse(booking.seated_at)) / 60000));
+            }
+        }
+
+        // Only update if nobody else moved the booking in the meantime
+        const { data: updated, error } = await supabase
+            .from('bookings')
+            .update(changes)
+            .eq('id', booking.id)
+            .eq('status', booking.status)
+            .select()
+            .single();
+
+        if (error || !updated) {
+            console.error('Database error:', error);
+            return { success: false, error: `Failed to update booking to ${to}` };
+        }
+
+        await auditService.recordBookingEvent(to === 'cancelled' ? 'cancelled' : 'status_changed', booking, updated, actor);
+        publishFloorChange(restaurant.id);
+
+        // Visits, no-shows and cancellations on the guest profile
+        if (updated.guest_id && (to === 'completed' || to === 'no_show' || to === 'cancelled')) {
+            await guestService.refreshStats(updated.guest_id);
+        }
+
+        if (to === 'cancelled') {
+            // Delete calendar event
+            if (restaurant?.google_calendar_tokens && booking.calendar_event_id) {
+                try {
+                    await calendarService.deleteEvent(JSON.parse(restaurant.google_calendar_tokens), booking.calendar_event_id);
+                } catch (calendarError) {
+                    console.error('Calendar delete error:', calendarError);
+                }
+            }
+        }
+
+        // Update HubSpot deal
+        const dealStage = HUBSPOT_STAGES[to];
+        if (booking.hubspot_deal_id && dealStage) {
+            try {
+                await hubspotService.updateDealStatus(booking.hubspot_deal_id, dealStage);
+            } catch (hubspotError) {
+                console.error('HubSpot stage error:', hubspotError);
+            }
+        }
+
+        // Refund, release or forfeit any deposit or card guarantee
+        if (to === 'cancelled' || to === 'no_show' || to === 'completed') {
+            try {
+                await paymentService.settleBookingPayments(booking, to, policy?.depositForfeited ?? false);
+            } catch (paymentError) {
+                console.error('Payment settlement error:', paymentError);
+            }
+        }
+
+        // Confirm the cancellation to the guest and remove it from their calendar
+        if (to === 'cancelled' && updated.guest_email && options.notifyGuest !== false) {
+            try {
+                await emailService.sendBookingCancellation({
+                    to: updated.guest_email,
+                    restaurantName: restaurant?.name || 'Restaurant',
+                    guestName: updated.guest_name,
+                    date: updated.booking_date,
+                    time: normalizeTime(updated.booking_time)!,
+                    partySize: updated.party_size,
+                    confirmationNumber: updated.confirmation_number,
+                    policyMessage: policy?.lateCancel ? policy.message : undefined,
+                    invite: calendarService.generateBookingInvite(restaurant, updated, 'cancel')
+                });
+            } catch (emailError) {
+                console.error('Booking cancellation email error:', emailError);
+            }
+        }
+
+        if (to === 'cancelled' && (actor.type === 'guest' || actor.type === 'ai_call')) {
+            await this.notifyRestaurant(
+                restaurant,
+                'Booking Cancelled',
+                `${booking.guest_name} cancelled their booking ${booking.confirmation_number} for ${booking.party_size} guests on ${booking.booking_date} at ${normalizeTime(booking.booking_time)}.${policy?.lateCancel ? ' This is a late cancellation under your cancellation policy.' : ''}`,
+                updated
+            );
+        }
+
+        if (to === 'cancelled') {
+            // Offer the freed slot to matching waitlist guests
+            try {
+                await waitlistService.offerFreedSlot(restaurant, booking);
+            } catch (waitlistError) {
+                console.error('Waitlist offer error:', waitlistError);
+            }
+        }
+
+        return { success: true, booking: updated, policy };
+    }
+
+    /**
+     * Send a notification email to the restaurant, never failing the calling operation
+     */
+    private async notifyRestaurant(restaurant: any, subject: string, message: string, booking: any): Promise<void> {
+        if (!restaurant?.email) return;
+
+        try {
+            await emailService.sendRestaurantNotification({
+                to: restaurant.email,
+                subject,
+                message,
+                bookingDetails: booking
+            });
+        } catch (emailError) {
+            console.error('Restaurant notification error:', emailError);
+        }
+    }
+
+    /**
+     * Emails, HubSpot and Google Calendar for a freshly created booking
+     */
+    private async syncNewBooking(restaurant: any, booking: any, options: CreateBookingOptions, payment?: any): Promise<void> {
+        const date = booking.booking_date;
+        const time = normalizeTime(booking.booking_time)!;
+        const { guest_name: guestName, guest_email: guestEmail, party_size: partySize } = booking;
+
+        // Send confirmation email to guest
+        if (guestEmail && options.notifyGuest !== false) {
+            try {
+                await emailService.sendBookingConfirmation({
+                    to: guestEmail,
+                    restaurantName: restaurant?.name || 'Restaurant',
+                    guestName,
+                    date,
+                    time,
+                    partySize,
+                    confirmationNumber: booking.confirmation_number,
+                    manageUrl: manageLinkService.createUrl(booking, restaurantTimeZone(restaurant)),
+                    payment: payment && {
+                        kind: payment.kind,
+                        amount: paymentService.formatAmount(payment.amount_cents, payment.currency),
+                        url: payment.payment_url,
+                        holdMinutes: PAYMENT_HOLD_MINUTES
+                    },
+                    invite: calendarService.generateBookingInvite(restaurant, booking)
+                });
+            } catch (emailError) {
+                console.error('Booking confirmation error:', emailError);
+            }
+        }
+
+        // Send notification to restaurant
+        if (options.notifyRestaurant !== false) {
+            await this.notifyRestaurant(
+                restaurant,
+                options.source === 'phone' ? 'New Phone Booking' : 'New Booking Received',
+                `${guestName} booked a table for ${partySize} on ${date} at ${time}. Special requests: ${booking.special_requests || 'None'}. Confirmation: ${booking.confirmation_number}. Source: ${options.source}.${payment ? ` Awaiting ${payment.kind} of ${paymentService.formatAmount(payment.amount_cents, payment.currency)}.` : ''}`,
+                booking
+            );
+        }
+
+        if (options.syncIntegrations !== false) {
+            await this.syncIntegrations(restaurant, booking, options.source);
+        }
+    }
+
+    /**
+     * Create the HubSpot contact and deal and the Google Calendar event for a booking
+     */
+    async syncIntegrations(restaurant: any, booking: any, source: string): Promise<void> {
+        const date = booking.booking_date;
+        const time = normalizeTime(booking.booking_time)!;
+        const { guest_name: guestName, guest_email: guestEmail, guest_phone: guestPhone, party_size: partySize } = booking;
+
+        // Create HubSpot contact and deal
+        if (guestEmail) {
+            try {
+                await hubspotService.upsertContact({
+                    email: guestEmail,
+                    firstName: guestName.split(' ')[0],
+                    lastName: guestName.split(' ').slice(1).join(' '),
+                    phone: guestPhone,
+                    restaurantName: restaurant?.name
+                });
+
+                const deal = await hubspotService.createDeal({
+                    dealName: `${restaurant?.name} - ${guestName} - ${date}`,
+                    contactEmail: guestEmail,
+                    restaurantId: restaurant.id,
+                    reservationDate: `${date} ${time}`,
+                    partySize
+                });
+
+                // Persist HubSpot deal id for lifecycle updates
+                if (deal?.id) {
+                    booking.hubspot_deal_id = deal.id;
+                    await supabase
+                        .from('bookings')
+                        .update({ hubspot_deal_id: deal.id })
+                        .eq('id', booking.id);
+                }
+            } catch (hubspotError) {
+                console.error('HubSpot error:', hubspotError);
+                // Don't fail the booking if HubSpot fails
+            }
+        }
+
+        // Create calendar event if restaurant has calendar connected
+        if (restaurant?.google_calendar_tokens) {
+            try {
+                const timeZone = restaurantTimeZone(restaurant);
+                const startTime = zonedTimeToUtc(date, time, timeZone);
+                const endTime = new Date(startTime.getTime() + booking.duration_minutes * 60000);
+
+                const calendarEvent = await calendarService.createEvent(JSON.parse(restaurant.google_calendar_tokens), {
+                    summary: `Reservation: ${guestName} (${partySize} ppl)`,
+                    description: `Source: ${source}\nPhone: ${guestPhone || 'N/A'}\nEmail: ${guestEmail || 'N/A'}\nSpecial Requests: ${booking.special_requests || 'None'}\nConfirmation: ${booking.confirmation_number}`,
+                    start: startTime,
+                    end: endTime,
+                    timeZone,
+                    attendees: guestEmail ? [guestEmail] : []
+                });
+
+                // Update booking with calendar event ID
+                booking.calendar_event_id = calendarEvent.id;
+                await supabase
+                    .from('bookings')
+                    .update({ calendar_event_id: calendarEvent.id })
+                    .eq('id', booking.id);
+            } catch (calendarError) {
+                console.error('Calendar error:', calendarError);
+            }
+        }
+    }
+}
+
+export default new BookingService();
@@ -1,5 +1,12 @@
 import { google } from 'googleapis';
-import ical from 'ical-generator';
+import ical, { ICalAttendeeRole, ICalAttendeeStatus, ICalCalendarMethod, ICalEventStatus } from 'ical-generator';
+import { restaurantTimeZone, toZonedDateTime, zonedTimeToUtc } from '../utils/datetime';
+
+/** Booking statuses that appear as cancelled entries, so subscribed calendars drop them */
+const CANCELLED_EVENT_STATUSES = ['cancelled'];
+
+/** Bookings still waiting on a deposit or card guarantee show as tentative */
+const TENTATIVE_EVENT_STATUSES = ['pending', 'pending_payment'];
 
 export class CalendarService {
     private oauth2Client: any;
@@ -43,6 +50,7 @@ export class CalendarService {
         description?: string;
         start: Date;
         end: Date;
+        timeZone?: string;
         attendees?: string[];
     }): Promise<any> {
         try {
@@ -54,11 +62,11 @@ export class CalendarService {
                 description: eventData.description,
                 start: {
                     dateTime: eventData.start.toISOString(),
-                    timeZone: 'UTC'
+                    timeZone: eventData.timeZone || 'UTC'
                 },
                 end: {
                     dateTime: eventData.end.toISOString(),
-                    timeZone: 'UTC'
+                    timeZone: eventData.timeZone || 'UTC'
                 },
                 attendees: eventData.attendees?.map(email => ({ email })),
                 reminders: {
@@ -90,6 +98,7 @@ export class CalendarService {
         description?: string;
         start?: Date;
         end?: Date;
+        timeZone?: string;
     }): Promise<any> {
         try {
             this.oauth2Client.setCredentials(tokens);
@@ -101,13 +110,13 @@ export class CalendarService {
             if (eventData.start) {
                 event.start = {
                     dateTime: eventData.start.toISOString(),
-                    timeZone: 'UTC'
+                    timeZone: eventData.timeZone || 'UTC'
                 };
             }
             if (eventData.end) {
                 event.end = {
                     dateTime: eventData.end.toISOString(),
-                    timeZone: 'UTC'
+                    timeZone: eventData.timeZone || 'UTC'
                 };
             }
 
@@ -167,19 +176,16 @@ export class CalendarService {
     }
 
     /**
-     * Find available slots for a given day
+     * Find available slots (HH:MM in the restaurant's timezone) for a YYYY-MM-DD day
      */
-    async findAvailableSlots(tokens: any, date: Date): Promise<string[]> {
+    async findAvailableSlots(tokens: any, date: string, durationMinutes: number = 60, timeZone: string = 'UTC'): Promise<string[]> {
         try {
             this.oauth2Client.setCredentials(tokens);
             const calendar = google.calendar({ version: 'v3', auth: this.oauth2Client });
 
-            // Set time range for the whole day (e.g., 9 AM to 10 PM)
-            const startOfDay = new Date(date);
-            startOfDay.setHours(9, 0, 0, 0);
-
-            const endOfDay = new Date(date);
-            endOfDay.setHours(22, 0, 0, 0);
+            // Set time range for the whole day (e.g., 9 AM to 10 PM) in the restaurant's timezone
+            const startOfDay = zonedTimeToUtc(date, '09:00', timeZone);
+            const endOfDay = zonedTimeToUtc(date, '22:00', timeZone);
 
             const response = await calendar.freebusy.query({
                 requestBody: {
@@ -196,7 +202,7 @@ export class CalendarService {
             let currentSlot = new Date(startOfDay);
 
             while (currentSlot < endOfDay) {
-                const endSlot = new Date(currentSlot.getTime() + 60 * 60 * 1000); // 1 hour slots
+                const endSlot = new Date(currentSlot.getTime() + durationMinutes * 60 * 1000); // Slot lasts one dining duration
 
                 // Check if this slot overlaps with any busy slot
                 const isBusy = busySlots.some((busy: any) => {
@@ -206,7 +212,7 @@ export class CalendarService {
                 });
 
                 if (!isBusy) {
-                    availableSlots.push(currentSlot.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
+                    availableSlots.push(toZonedDateTime(currentSlot, timeZone).time);
                 }
 
                 currentSlot = new Date(currentSlot.getTime() + 30 * 60 * 1000); // Increment by 30 mins
@@ -241,6 +247,112 @@ export class CalendarService {
 
         return calendar.toString();
     }
+
+    /**
+     * Stable iCalendar UID for a booking, so every feed refresh or invite updates the same entry
+     */
+    bookingEventUid(booking: any): string {
+        return `booking-${booking.id}@${process.env.EMAIL_DOMAIN || 'tablenow.io'}`;
+    }
+
+    /**
+     * iCalendar subscription feed of a restaurant's bookings. Guest names and contact
+     * details are left out unless includeGuestDetails is set.
+     */
+    generateBookingFeed(restaurant: any, bookings: any[], options: { includeGuestDetails?: boolean } = {}): string {
+        const timeZone = restaurantTimeZone(restaurant);
+        const calendar = ical({
+            name: `${restaurant.name} bookings`,
+            prodId: { company: 'TableNow', product: 'Bookings', language: 'EN' },
+            ttl: 15 * 60 // Ask clients to refresh every 15 minutes
+        });
+
+        for (const booking of bookings) {
+            const start = zonedTimeToUtc(booking.booking_date, booking.booking_time, timeZone);
+            const end = new Date(start.getTime() + (booking.duration_minutes || 90) * 60000);
+            const cancelled = CANCELLED_EVENT_STATUSES.includes(booking.status);
+
+            const details = [
+                `Confirmation: ${booking.confirmation_number}`,
+                `Party size: ${booking.party_size}`,
+                `Status: ${booking.status}`
+            ];
+            if (options.includeGuestDetails) {
+                details.unshift(`Guest: ${booking.guest_name}`);
+                if (booking.guest_phone) details.push(`Phone: ${booking.guest_phone}`);
+                if (booking.guest_email) details.push(`Email: ${booking.guest_email}`);
+                if (booking.special_requests) details.push(`Requests: ${booking.special_requests}`);
+            }
+
+            calendar.createEvent({
+                id: this.bookingEventUid(booking),
+                start,
+                end,
+                summary: options.includeGuestDetails
+                    ? `${booking.guest_name} (${booking.party_size})`
+                    : `Booking for ${booking.party_size}`,
+                description: details.join('\n'),
+                location: restaurant.address || null,
+                status: cancelled ? ICalEventStatus.CANCELLED : ICalEventStatus.CONFIRMED,
+                sequence: booking.ics_sequence || 0,
+                created: booking.created_at ? new Date(booking.created_at) : null,
+                lastModified: booking.updated_at ? new Date(booking.updated_at) : null
+            });
+        }
+
+        return calendar.toString();
+    }
+
+    /**
+     * Guest calendar invite for a booking. Shares the booking's UID and SEQUENCE with every
+     * earlier invite, so a later REQUEST replaces the guest's entry and a CANCEL removes it.
+     */
+    generateBookingInvite(restaurant: any, booking: any, method: 'request' | 'cancel' = 'request'): string {
+        const timeZone = restaurantTimeZone(restaurant);
+        const start = zonedTimeToUtc(booking.booking_date, booking.booking_time, timeZone);
+        const end = new Date(start.getTime() + (booking.duration_minutes || 90) * 60000);
+        const restaurantName = restaurant?.name || 'Restaurant';
+
+        const calendar = ical({
+            name: restaurantName,
+            prodId: { company: 'TableNow', product: 'Bookings', language: 'EN' },
+            method: method === 'cancel' ? ICalCalendarMethod.CANCEL : ICalCalendarMethod.REQUEST
+        });
+
+        let status = ICalEventStatus.CONFIRMED;
+        if (method === 'cancel' || CANCELLED_EVENT_STATUSES.includes(booking.status)) status = ICalEventStatus.CANCELLED;
+        else if (TENTATIVE_EVENT_STATUSES.includes(booking.status)) status = ICalEventStatus.TENTATIVE;
+
+        const details = [
+            `Confirmation: ${booking.confirmation_number}`,
+            `Party size: ${booking.party_size}`
+        ];
+        if (booking.special_requests) details.push(`Requests: ${booking.special_requests}`);
+        if (restaurant?.phone) details.push(`Restaurant phone: ${restaurant.phone}`);
+
+        calendar.createEvent({
+            id: this.bookingEventUid(booking),
+            sequence: booking.ics_sequence || 0,
+            start,
+            end,
+            summary: `Reservation at ${restaurantName} (${booking.party_size} guests)`,
+            description: details.join('\n'),
+            location: restaurant?.address || null,
+            status,
+            organizer: restaurant?.email ? { name: restaurantName, email: restaurant.email } : null,
+            attendees: booking.guest_email ? [{
+                name: booking.guest_name,
+                email: booking.guest_email,
+                role: ICalAttendeeRole.REQ,
+                status: method === 'cancel' ? ICalAttendeeStatus.DECLINED : ICalAttendeeStatus.ACCEPTED,
+                rsvp: false
+            }] : [],
+            created: booking.created_at ? new Date(booking.created_at) : null,
+            lastModified: booking.updated_at ? new Date(booking.updated_at) : null
+        });
+
+        return calendar.toString();
+    }
 }
 
 export default new CalendarService();
@@ -0,0 +1,162 @@
+import { randomBytes } from 'crypto';
+import supabase from '../config/supabase';
+import calendarService from './calendar.service';
+import { addDays, restaurantTimeZone, todayIn } from '../utils/datetime';
+
+/**
+ * Feed settings stored as JSON in restaurants.calendar_feed_options
+ */
+export interface CalendarFeedOptions {
+    daysBack: number;
+    daysForward: number;
+    includeGuestDetails: boolean; // Guest names, phone numbers, emails and requests
+}
+
+export const DEFAULT_FEED_OPTIONS: CalendarFeedOptions = {
+    daysBack: 7,
+    daysForward: 60,
+    includeGuestDetails: false
+};
+
+const MAX_FEED_DAYS = 366;
+
+/** Statuses included in the feed; cancelled bookings stay so subscribed calendars remove them */
+const FEED_STATUSES = ['confirmed', 'seated', 'completed', 'no_show', 'cancelled'];
+
+export class CalendarFeedService {
+    /**
+     * Stored feed options merged over the defaults
+     */
+    getOptions(restaurant: any): CalendarFeedOptions {
+        let stored = restaurant?.calendar_feed_options;
+        if (typeof stored === 'string') {
+            try {
+                stored = JSON.parse(stored);
+            } catch {
+                stored = null;
+            }
+        }
+        return { ...DEFAULT_FEED_OPTIONS, ...(stored && typeof stored === 'object' ? stored : {}) };
+    }
+
+    /**
+     * Validate options from the dashboard, returns an error message or null
+     */
+    validateOptions(raw: any): string | null {
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'Feed options must be an object';
+
+        for (const key of ['daysBack', 'daysForward']) {
+            const value = raw[key];
+            if (value === undefined) continue;
+            if (!Number.isInteger(value) || value < 0 || value > MAX_FEED_DAYS) {
+                return `${key} must be a whole number from 0 to ${MAX_FEED_DAYS}`;
+            }
+        }
+
+        if (raw.includeGuestDetails !== undefined && typeof raw.includeGuestDetails !== 'boolean') {
+            return 'includeGuestDetails must be true or false';
+        }
+
+        return null;
+    }
+
+    /**
+     * Subscription URL for a feed token
+     */
+    feedUrl(token: string): string {
+        return `${process.env.BACKEND_URL || 'http://localhost:5000'}/api/calendar/feed/${token}.ics`;
+    }
+
+    /**
+     * Turn the feed on, or replace its URL when it is already on. Old URLs stop working immediately.
+     */
+    async enableFeed(restaurantId: string, options?: Partial<CalendarFeedOptions>): Promise<{ url: string; options: CalendarFeedOptions }> {
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('calendar_feed_options')
+            .eq('id', restaurantId)
+            .single();
+
+        const merged = { ...this.getOptions(restaurant), ...(options || {}) };
+        const token = randomBytes(24).toString('hex');
+
+        const { error } = await supabase
+            .from('restaurants')
+            .update({ calendar_feed_token: token, calendar_feed_options: merged })
+            .eq('id', restaurantId);
+
+        if (error) throw error;
+
+        return { url: this.feedUrl(token), options: merged };
+    }
+
+    /**
+     * Change what the feed includes without changing its URL
+     */
+    async updateOptions(restaurantId: string, options: Partial<CalendarFeedOptions>): Promise<CalendarFeedOptions> {
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('calendar_feed_options')
+            .eq('id', restaurantId)
+            .single();
+
+        const merged = { ...this.getOptions(restaurant), ...options };
+
+        const { error } = await supabase
+            .from('restaurants')
+            .update({ calendar_feed_options: merged })
+            .eq('id', restaurantId);
+
+        if (error) throw error;
+
+        return merged;
+    }
+
+    /**
+     * Revoke the feed URL
+     */
+    async disableFeed(restaurantId: string): Promise<void> {
+        const { error } = await supabase
+            .from('restaurants')
+            .update({ calendar_feed_token: null })
+            .eq('id', restaurantId);
+
+        if (error) throw error;
+    }
+
+    /**
+     * Render the feed for a token, returns null for unknown or revoked tokens
+     */
+    async renderFeed(token: string): Promise<string | null> {
+        if (!/^[a-f0-9]{48}$/.test(token)) return null;
+
+        const { data: restaurant } = await supabase
+            .from('restaurants')
+            .select('*')
+            .eq('calendar_feed_token', token)
+            .single();
+
+        if (!restaurant) return null;
+
+        const options = this.getOptions(restaurant);
+        const today = todayIn(restaurantTimeZone(restaurant));
+
+        const { data: bookings, error } = await supabase
+            .from('bookings')
+            .select('*')
+            .eq('restaurant_id', restaurant.id)
+            .in('status', FEED_STATUSES)
+            .gte('booking_date', addDays(today, -options.daysBack))
+            .lte('booking_date', addDays(today, options.daysForward))
+            .order('booking_date', { ascending: true })
+            .order('booking_time', { ascending: true });
+
+        if (error) throw error;
+
+        return calendarService.generateBookingFeed(restaurant, bookings || [], {
+            includeGuestDetails: options.includeGuestDetails
+        });
+    }
+}
+
+export default new CalendarFeedService();
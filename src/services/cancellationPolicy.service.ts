@@ -0,0 +1,222 @@
+import supabase from '../config/supabase';
+import paymentService from './payment.service';
+import { restaurantTimeZone, zonedTimeToUtc } from '../utils/datetime';
+
+export interface PolicyFee {
+    amountPerGuest?: number;
+    amount?: number;
+}
+
+/**
+ * Structured cancellation policy stored as JSON in restaurants.cancellation_policy
+ */
+export interface CancellationPolicy {
+    freeCancellationHours?: number;
+    lateCancelFee?: PolicyFee;
+    noShowFee?: PolicyFee;
+    forfeitDeposit?: boolean; // Late cancellations and no-shows keep deposits and capture guarantees, defaults to true
+    text?: string; // Extra wording shown to guests
+}
+
+export interface PolicyAssessment {
+    lateCancel: boolean;
+    feeCents: number;
+    depositForfeited: boolean;
+    message: string;
+}
+
+export interface GuestHistory {
+    bookings: number;
+    cancellations: number;
+    lateCancellations: number;
+    noShows: number;
+    recent: any[];
+}
+
+export class CancellationPolicyService {
+    /**
+     * Read the structured policy, returns null for no policy or a free-text one
+     */
+    getPolicy(restaurant: any): CancellationPolicy | null {
+        let value = restaurant?.cancellation_policy;
+        if (!value) return null;
+
+        if (typeof value === 'string') {
+            try {
+                value = JSON.parse(value);
+            } catch {
+                return null;
+            }
+        }
+
+        return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    }
+
+    /**
+     * Validate a policy from settings, returns an error message or null
+     */
+    validatePolicy(raw: any): string | null {
+        if (typeof raw === 'string') {
+            try {
+                raw = JSON.parse(raw);
+            } catch {
+                // Plain wording with no rules is still allowed
+                return null;
+            }
+        }
+
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            return 'Cancellation policy must be text or an object';
+        }
+
+        if (raw.freeCancellationHours !== undefined && !(Number(raw.freeCancellationHours) >= 0)) {
+            return 'Free cancellation hours must be zero or more';
+        }
+
+        for (const key of ['lateCancelFee', 'noShowFee']) {
+            const fee = raw[key];
+            if (fee === undefined || fee === null) continue;
+            if (typeof fee !== 'object' || (!(Number(fee.amountPerGuest) > 0) && !(Number(fee.amount) > 0))) {
+                return `${key} needs a positive amount or amountPerGuest`;
+            }
+        }
+
+        if (raw.forfeitDeposit !== undefined && typeof raw.forfeitDeposit !== 'boolean') {
+            return 'forfeitDeposit must be true or false';
+        }
+
+        return null;
+    }
+
+    /**
+     * What cancelling this booking now would cost the guest
+     */
+    async assessCancellation(restaurant: any, booking: any, now: Date = new Date()): Promise<PolicyAssessment> {
+        // An unpaid hold was never secured, so dropping it costs nothing
+        if (booking.status === 'pending_payment') {
+            return { lateCancel: false, feeCents: 0, depositForfeited: false, message: 'This booking was never paid for, so there is no charge for cancelling it.' };
+        }
+
+        const policy = this.getPolicy(restaurant);
+        const windowHours = Number(policy?.freeCancellationHours);
+
+        const startsAt = zonedTimeToUtc(booking.booking_date, booking.booking_time, restaurantTimeZone(restaurant));
+        const lateCancel = windowHours > 0 && startsAt.getTime() - now.getTime() < windowHours * 3600000;
+
+        if (!lateCancel) {
+            return { lateCancel: false, feeCents: 0, depositForfeited: false, message: 'There is no charge for cancelling this booking.' };
+        }
+
+        const feeCents = this.feeCents(policy?.lateCancelFee, booking.party_size);
+        const depositForfeited = policy?.forfeitDeposit !== false && await this.hasHeldPayment(booking);
+
+        return {
+            lateCancel: true,
+            feeCents,
+            depositForfeited,
+            message: `This is less than ${windowHours} hours before the booking, so it counts as a late cancellation. ${this.describeConsequences(restaurant, feeCents, depositForfeited)}`
+        };
+    }
+
+    /**
+     * What a no-show costs the guest
+     */
+    async assessNoShow(restaurant: any, booking: any): Promise<PolicyAssessment> {
+        const policy = this.getPolicy(restaurant);
+        const feeCents = this.feeCents(policy?.noShowFee, booking.party_size);
+        const depositForfeited = policy?.forfeitDeposit !== false && await this.hasHeldPayment(booking);
+
+        return {
+            lateCancel: false,
+            feeCents,
+            depositForfeited,
+            message: `Not showing up for this booking is a no-show. ${this.describeConsequences(restaurant, feeCents, depositForfeited)}`
+        };
+    }
+
+    /**
+     * Plain-language summary of the policy for guests and the assistant
+     */
+    describePolicy(restaurant: any): string | null {
+        const raw = restaurant?.cancellation_policy;
+        const policy = this.getPolicy(restaurant);
+        if (!policy) return typeof raw === 'string' && raw.trim() ? raw : null;
+
+        const currency = restaurant?.currency || 'USD';
+        const parts: string[] = [];
+
+        if (Number(policy.freeCancellationHours) > 0) {
+            parts.push(`Free cancellation up to ${policy.freeCancellationHours} hours before your booking.`);
+            if (policy.lateCancelFee) {
+                parts.push(`Later cancellations are charged ${this.describeFee(policy.lateCancelFee, currency)}.`);
+            }
+        }
+        if (policy.noShowFee) {
+            parts.push(`No-shows are charged ${this.describeFee(policy.noShowFee, currency)}.`);
+        }
+        if (policy.forfeitDeposit !== false && restaurant?.deposit_rules) {
+            parts.push('Deposits are not refunded for late cancellations or no-shows.');
+        }
+        if (policy.text) parts.push(policy.text);
+
+        return parts.length ? parts.join(' ') : null;
+    }
+
+    /**
+     * A guest's past bookings at this restaurant, matched by email or phone
+     */
+    async getGuestHistory(restaurantId: string, guest: { email?: string; phone?: string }): Promise<GuestHistory> {
+        const bookings = new Map<string, any>();
+
+        for (const [column, value] of [['guest_email', guest.email], ['guest_phone', guest.phone]]) {
+            if (!value) continue;
+            const { data } = await supabase
+                .from('bookings')
+                .select('id, confirmation_number, booking_date, booking_time, party_size, status, late_cancel, penalty_cents, cancelled_at, no_show_at')
+                .eq('restaurant_id', restaurantId)
+                .eq(column as string, value);
+            (data || []).forEach(b => bookings.set(b.id, b));
+        }
+
+        const all = [...bookings.values()].sort((a, b) => (a.booking_date < b.booking_date ? 1 : -1));
+        const cancelled = all.filter(b => b.status === 'cancelled');
+
+        return {
+            bookings: all.length,
+            cancellations: cancelled.length,
+            lateCancellations: cancelled.filter(b => b.late_cancel).length,
+            noShows: all.filter(b => b.status === 'no_show').length,
+            recent: all.filter(b => b.status === 'cancelled' || b.status === 'no_show').slice(0, 10)
+        };
+    }
+
+    private feeCents(fee: PolicyFee | undefined, partySize: number): number {
+        if (!fee) return 0;
+        const amount = Number(fee.amountPerGuest) > 0 ? Number(fee.amountPerGuest) * (partySize || 1) : Number(fee.amount) || 0;
+        return Math.round(amount * 100);
+    }
+
+    private describeFee(fee: PolicyFee, currency: string): string {
+        return Number(fee.amountPerGuest) > 0
+            ? `${paymentService.formatAmount(Math.round(Number(fee.amountPerGuest) * 100), currency)} per guest`
+            : paymentService.formatAmount(Math.round(Number(fee.amount) * 100), currency);
+    }
+
+    private describeConsequences(restaurant: any, feeCents: number, depositForfeited: boolean): string {
+        const consequences: string[] = [];
+        if (depositForfeited) consequences.push('the deposit or card guarantee will be kept');
+        if (feeCents > 0) consequences.push(`a fee of ${paymentService.formatAmount(feeCents, restaurant?.currency || 'USD')} applies`);
+
+        if (!consequences.length) return 'It will be noted on your record.';
+        const sentence = consequences.join(' and ');
+        return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`;
+    }
+
+    /** Paid deposits and authorized guarantees are what a late cancellation can forfeit */
+    private async hasHeldPayment(booking: any): Promise<boolean> {
+        const payments = await paymentService.getBookingPayments(booking.id);
+        return payments.some(p => p.status === 'paid' || p.status === 'authorized');
+    }
+}
+
+export default new CancellationPolicyService();
@@ -0,0 +1,37 @@
+import axios from 'axios';
+
+// Cloudflare Turnstile by default; hCaptcha and reCAPTCHA accept the same form fields
+const CAPTCHA_VERIFY_URL = process.env.CAPTCHA_VERIFY_URL || 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+export class CaptchaService {
+    /**
+     * Whether captcha checks are switched on (CAPTCHA_SECRET is set)
+     */
+    isEnabled(): boolean {
+        return !!process.env.CAPTCHA_SECRET;
+    }
+
+    /**
+     * Verify a captcha token from the booking widget. Always passes when captcha is not configured.
+     */
+    async verify(token: string | undefined, remoteIp?: string): Promise<boolean> {
+        if (!this.isEnabled()) return true;
+        if (!token) return false;
+
+        try {
+            const params = new URLSearchParams({ secret: process.env.CAPTCHA_SECRET!, response: token });
+            if (remoteIp) params.append('remoteip', remoteIp);
+
+            const response = await axios.post(CAPTCHA_VERIFY_URL, params.toString(), {
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+            });
+
+            return response.data?.success === true;
+        } catch (error: any) {
+            console.error('Captcha verification error:', error.response?.data || error.message);
+            return false;
+        }
+    }
+}
+
+export default new CaptchaService();
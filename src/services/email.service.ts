@@ -86,11 +86,21 @@ export class EmailService {
     time: string;
     partySize: number;
     confirmationNumber: string;
+    manageUrl?: string;
+    payment?: { kind: 'deposit' | 'guarantee'; amount: string; url: string; holdMinutes: number };
+    invite?: string; // iCalendar REQUEST for the booking
   }): Promise<void> {
+    const paymentText = data.payment?.kind === 'guarantee'
+      ? `Please secure your reservation with a card guarantee. A charge of ${data.payment.amount} applies only for late cancellations or no-shows.`
+      : `Please pay your deposit of ${data.payment?.amount} to confirm your reservation.`;
+    const holdText = data.payment ? ` The table is held for ${data.payment.holdMinutes} minutes.` : '';
+
     const msg = {
       to: data.to,
       from: this.fromEmail,
-      subject: `Booking Confirmation - ${data.restaurantName}`,
+      subject: data.payment
+        ? `Action Required: Complete Your Booking - ${data.restaurantName}`
+        : `Booking Confirmation - ${data.restaurantName}`,
       html: `
         <!DOCTYPE html>
         <html>
@@ -104,16 +114,22 @@ export class EmailService {
             .detail-row { padding: 10px 0; border-bottom: 1px solid #eee; }
             .label { font-weight: bold; display: inline-block; width: 150px; }
             .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+            .button { display: inline-block; padding: 12px 30px; background: #000; color: #fff; text-decoration: none; border-radius: 5px; margin: 20px 0; }
           </style>
         </head>
         <body>
           <div class="container">
             <div class="header">
-              <h1>Booking Confirmed</h1>
+              <h1>${data.payment ? 'Booking Received' : 'Booking Confirmed'}</h1>
             </div>
             <div class="content">
               <h2>Dear ${data.guestName},</h2>
-              <p>Your reservation at ${data.restaurantName} has been confirmed!</p>
+              ${data.payment ? `
+              <p>Your table at ${data.restaurantName} is being held. ${paymentText}${holdText}</p>
+              <div style="text-align: center;">
+                <a href="${data.payment.url}" class="button" target="_blank">${data.payment.kind === 'guarantee' ? 'Add Card' : 'Pay Deposit'}</a>
+              </div>
+              ` : `<p>Your reservation at ${data.restaurantName} has been confirmed!</p>`}
               
               <div class="booking-details">
                 <div class="detail-row">
@@ -139,7 +155,9 @@ export class EmailService {
               </div>
               
               <p>We look forward to serving you!</p>
-              <p><small>If you need to modify or cancel your reservation, please contact the restaurant directly.</small></p>
+              ${data.manageUrl
+                ? `<p><small>Need to change or cancel? <a href="${data.manageUrl}" target="_blank">Manage your booking</a> online.</small></p>`
+                : '<p><small>If you need to modify or cancel your reservation, please contact the restaurant directly.</small></p>'}
             </div>
             <div class="footer">
               <p>Powered by TableNow</p>
@@ -147,7 +165,8 @@ export class EmailService {
           </div>
         </body>
         </html>
-      `
+      `,
+      attachments: data.invite ? [this.calendarAttachment(data.invite, 'REQUEST')] : undefined
     };
 
     try {
@@ -159,6 +178,355 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send booking change email with an updated calendar invite
+   */
+  async sendBookingModification(data: {
+    to: string;
+    restaurantName: string;
+    guestName: string;
+    date: string;
+    time: string;
+    partySize: number;
+    confirmationNumber: string;
+    manageUrl?: string;
+    invite?: string; // iCalendar REQUEST with the booking's next SEQUENCE
+  }): Promise<void> {
+    const msg = {
+      to: data.to,
+      from: this.fromEmail,
+      subject: `Booking Updated - ${data.restaurantName}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #000; color: #fff; padding: 20px; text-align: center; }
+            .content { padding: 30px 20px; background: #f9f9f9; }
+            .booking-details { background: #fff; padding: 20px; border-left: 4px solid #000; margin: 20px 0; }
+            .detail-row { padding: 10px 0; border-bottom: 1px solid #eee; }
+            .label { font-weight: bold; display: inline-block; width: 150px; }
+            .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Booking Updated</h1>
+            </div>
+            <div class="content">
+              <h2>Dear ${data.guestName},</h2>
+              <p>Your reservation at ${data.restaurantName} has been changed. Here are the new details:</p>
+
+              <div class="booking-details">
+                <div class="detail-row">
+                  <span class="label">Confirmation #:</span>
+                  <span>${data.confirmationNumber}</span>
+                </div>
+                <div class="detail-row">
+                  <span class="label">Date:</span>
+                  <span>${data.date}</span>
+                </div>
+                <div class="detail-row">
+                  <span class="label">Time:</span>
+                  <span>${data.time}</span>
+                </div>
+                <div class="detail-row">
+                  <span class="label">Party Size:</span>
+                  <span>${data.partySize} guests</span>
+                </div>
+              </div>
+
+              ${data.invite ? '<p>The attached invite updates the reservation in your calendar.</p>' : ''}
+              ${data.manageUrl
+                ? `<p><small>Need another change? <a href="${data.manageUrl}" target="_blank">Manage your booking</a> online.</small></p>`
+                : ''}
+            </div>
+            <div class="footer">
+              <p>Powered by TableNow</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      attachments: data.invite ? [this.calendarAttachment(data.invite, 'REQUEST')] : undefined
+    };
+
+    try {
+      await sgMail.send(msg);
+      console.log(`Booking modification sent to ${data.to} via SendGrid API`);
+    } catch (error: any) {
+      console.error('Error sending booking modification:', error.response?.body || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Send booking cancellation email with a calendar cancellation
+   */
+  async sendBookingCancellation(data: {
+    to: string;
+    restaurantName: string;
+    guestName: string;
+    date: string;
+    time: string;
+    partySize: number;
+    confirmationNumber: string;
+    policyMessage?: string;
+    invite?: string; // iCalendar CANCEL for the booking
+  }): Promise<void> {
+    const msg = {
+      to: data.to,
+      from: this.fromEmail,
+      subject: `Booking Cancelled - ${data.restaurantName}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #000; color: #fff; padding: 20px; text-align: center; }
+            .content { padding: 30px 20px; background: #f9f9f9; }
+            .booking-details { background: #fff; padding: 20px; border-left: 4px solid #000; margin: 20px 0; }
+            .detail-row { padding: 10px 0; border-bottom: 1px solid #eee; }
+            .label { font-weight: bold; display: inline-block; width: 150px; }
+            .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Booking Cancelled</h1>
+            </div>
+            <div class="content">
+              <h2>Dear ${data.guestName},</h2>
+              <p>Your reservation at ${data.restaurantName} has been cancelled.</p>
+
+              <div class="booking-details">
+                <div class="detail-row">
+                  <span class="label">Confirmation #:</span>
+                  <span>${data.confirmationNumber}</span>
+                </div>
+                <div class="detail-row">
+                  <span class="label">Date:</span>
+                  <span>${data.date}</span>
+                </div>
+                <div class="detail-row">
+                  <span class="label">Time:</span>
+                  <span>${data.time}</span>
+                </div>
+                <div class="detail-row">
+                  <span class="label">Party Size:</span>
+                  <span>${data.partySize} guests</span>
+                </div>
+              </div>
+
+              ${data.policyMessage ? `<p>${data.policyMessage}</p>` : ''}
+              <p>We hope to welcome you another time.</p>
+            </div>
+            <div class="footer">
+              <p>Powered by TableNow</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+      attachments: data.invite ? [this.calendarAttachment(data.invite, 'CANCEL')] : undefined
+    };
+
+    try {
+      await sgMail.send(msg);
+      console.log(`Booking cancellation sent to ${data.to} via SendGrid API`);
+    } catch (error: any) {
+      console.error('Error sending booking cancellation:', error.response?.body || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Send waitlist offer email with a time-limited claim link
+   */
+  async sendWaitlistOffer(data: {
+    to: string;
+    restaurantName: string;
+    guestName: string;
+    date: string;
+    time: string;
+    partySize: number;
+    claimUrl: string;
+    expiresInMinutes: number;
+  }): Promise<void> {
+    const msg = {
+      to: data.to,
+      from: this.fromEmail,
+      subject: `A table just opened up at ${data.restaurantName}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #000; color: #fff; padding: 20px; text-align: center; }
+            .content { padding: 30px 20px; background: #f9f9f9; }
+            .booking-details { background: #fff; padding: 20px; border-left: 4px solid #000; margin: 20px 0; }
+            .detail-row { padding: 10px 0; border-bottom: 1px solid #eee; }
+            .label { font-weight: bold; display: inline-block; width: 150px; }
+            .button { display: inline-block; padding: 12px 30px; background: #000; color: #fff; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Good News!</h1>
+            </div>
+            <div class="content">
+              <h2>Dear ${data.guestName},</h2>
+              <p>A table has become available at ${data.restaurantName} for your waitlist request.</p>
+
+              <div class="booking-details">
+                <div class="detail-row">
+                  <span class="label">Date:</span>
+                  <span>${data.date}</span>
+                </div>
+                <div class="detail-row">
+                  <span class="label">Time:</span>
+                  <span>${data.time}</span>
+                </div>
+                <div class="detail-row">
+                  <span class="label">Party Size:</span>
+                  <span>${data.partySize} guests</span>
+                </div>
+              </div>
+
+              <p style="text-align: center;">
+                <a href="${data.claimUrl}" class="button" target="_blank">Claim This Table</a>
+              </p>
+              <p>This offer expires in ${data.expiresInMinutes} minutes and may be offered to other guests on the waitlist, so the first to claim it gets the table.</p>
+              <p>If the button doesn't work, copy this link:</p>
+              <p style="word-break: break-all; color: #666;">${data.claimUrl}</p>
+            </div>
+            <div class="footer">
+              <p>Powered by TableNow</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    };
+
+    try {
+      await sgMail.send(msg);
+      console.log(`Waitlist offer sent to ${data.to} via SendGrid API`);
+    } catch (error: any) {
+      console.error('Error sending waitlist offer:', error.response?.body || error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Send the outcome of a large-party or private dining request to the guest
+   */
+  async sendInquiryOutcome(data: {
+    to: string;
+    restaurantName: string;
+    guestName: string;
+    outcome: 'approved' | 'declined' | 'countered';
+    date: string;
+    time: string;
+    partySize: number;
+    message?: string;
+    confirmationNumber?: string;
+    acceptUrl?: string; // Countered requests: books the proposal
+  }): Promise<void> {
+    const headings = {
+      approved: 'Request Approved',
+      declined: 'Request Update',
+      countered: 'A New Proposal'
+    };
+    const intros = {
+      approved: `Great news! ${data.restaurantName} has approved your request and your reservation is confirmed.`,
+      declined: `Unfortunately ${data.restaurantName} is unable to accommodate your request.`,
+      countered: `${data.restaurantName} can't do the original details of your request, but would like to propose the following instead.`
+    };
+
+    const msg = {
+      to: data.to,
+      from: this.fromEmail,
+      subject: `${headings[data.outcome]} - ${data.restaurantName}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #000; color: #fff; padding: 20px; text-align: center; }
+            .content { padding: 30px 20px; background: #f9f9f9; }
+            .booking-details { background: #fff; padding: 20px; border-left: 4px solid #000; margin: 20px 0; }
+            .detail-row { padding: 10px 0; border-bottom: 1px solid #eee; }
+            .label { font-weight: bold; display: inline-block; width: 150px; }
+            .button { display: inline-block; padding: 12px 30px; background: #000; color: #fff; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+            .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${headings[data.outcome]}</h1>
+            </div>
+            <div class="content">
+              <h2>Dear ${data.guestName},</h2>
+              <p>${intros[data.outcome]}</p>
+              ${data.outcome !== 'declined' ? `
+              <div class="booking-details">
+                ${data.confirmationNumber ? `
+                <div class="detail-row">
+                  <span class="label">Confirmation #:</span>
+                  <span>${data.confirmationNumber}</span>
+                </div>` : ''}
+                <div class="detail-row">
+                  <span class="label">Date:</span>
+                  <span>${data.date}</span>
+                </div>
+                <div class="detail-row">
+                  <span class="label">Time:</span>
+                  <span>${data.time}</span>
+                </div>
+                <div class="detail-row">
+                  <span class="label">Party Size:</span>
+                  <span>${data.partySize} guests</span>
+                </div>
+              </div>
+              ` : ''}
+              ${data.message ? `<p><strong>Message from the restaurant:</strong><br>${data.message}</p>` : ''}
+              ${data.outcome === 'countered' && data.acceptUrl ? `
+              <p>If the new details suit you, accept them and your reservation is confirmed straight away. Otherwise, please contact the restaurant.</p>
+              <a href="${data.acceptUrl}" class="button" target="_blank">Accept Proposal</a>` : ''}
+              ${data.outcome === 'countered' && !data.acceptUrl ? '<p>Please contact the restaurant to accept the new proposal.</p>' : ''}
+            </div>
+            <div class="footer">
+              <p>Powered by TableNow</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    };
+
+    try {
+      await sgMail.send(msg);
+      console.log(`Inquiry ${data.outcome} email sent to ${data.to} via SendGrid API`);
+    } catch (error: any) {
+      console.error('Error sending inquiry outcome:', error.response?.body || error.message);
+      throw error;
+    }
+  }
+
   /**
    * Send notification to restaurant
    */
@@ -291,6 +659,19 @@ export class EmailService {
       throw error;
     }
   }
+
+  /**
+   * SendGrid attachment for an iCalendar invite; the method in the content type lets
+   * mail clients offer to add, update or remove the event
+   */
+  private calendarAttachment(ics: string, method: 'REQUEST' | 'CANCEL') {
+    return {
+      content: Buffer.from(ics).toString('base64'),
+      filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+      type: `text/calendar; charset=utf-8; method=${method}`,
+      disposition: 'attachment'
+    };
+  }
 }
 
 export default new EmailService();
@@ -0,0 +1,98 @@
+import supabase from '../config/supabase';
+import { escapeCsvFormula, toCsvRow } from '../utils/csv';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export interface ExportFilters {
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string; // YYYY-MM-DD, inclusive
+    statuses?: string[];
+    sources?: string[];
+}
+
+/** Columns in the order they appear in exports */
+export const EXPORT_COLUMNS = [
+    'id',
+    'confirmation_number',
+    'booking_date',
+    'booking_time',
+    'party_size',
+    'duration_minutes',
+    'status',
+    'source',
+    'guest_name',
+    'guest_email',
+    'guest_phone',
+    'special_requests',
+    'late_cancel',
+    'penalty_cents',
+    'table_ids',
+    'calendar_event_id',
+    'hubspot_deal_id',
+    'created_at',
+    'updated_at',
+    'confirmed_at',
+    'seated_at',
+    'completed_at',
+    'no_show_at',
+    'cancelled_at'
+] as const;
+
+const PAGE_SIZE = 1000;
+
+export class BookingExportService {
+    /**
+     * Matching bookings one page at a time, so exports never hold the whole result set.
+     * Runs until an empty page, since the server may cap pages below PAGE_SIZE.
+     */
+    async *pages(restaurantId: string, filters: ExportFilters): AsyncGenerator<any[]> {
+        for (let offset = 0; ; ) {
+            let query = supabase
+                .from('bookings')
+                .select(EXPORT_COLUMNS.join(', '))
+                .eq('restaurant_id', restaurantId)
+                .order('booking_date', { ascending: true })
+                .order('booking_time', { ascending: true })
+                .order('id', { ascending: true })
+                .range(offset, offset + PAGE_SIZE - 1);
+
+            if (filters.from) query = query.gte('booking_date', filters.from);
+            if (filters.to) query = query.lte('booking_date', filters.to);
+            if (filters.statuses?.length) query = query.in('status', filters.statuses);
+            if (filters.sources?.length) query = query.in('source', filters.sources);
+
+            const { data, error } = await query;
+            if (error) throw error;
+            if (!data || data.length === 0) return;
+
+            yield data;
+            offset += data.length;
+        }
+    }
+
+    /**
+     * Export lines for a format: a CSV header then one line per booking, or one JSON object per line
+     */
+    async *lines(restaurantId: string, filters: ExportFilters, format: ExportFormat): AsyncGenerator<string> {
+        if (format === 'csv') {
+            yield toCsvRow([...EXPORT_COLUMNS]);
+        }
+
+        for await (const page of this.pages(restaurantId, filters)) {
+            for (const booking of page) {
+                yield format === 'csv'
+                    ? toCsvRow(EXPORT_COLUMNS.map(column => this.csvValue(booking[column])))
+                    : `${JSON.stringify(booking)}\n`;
+            }
+        }
+    }
+
+    private csvValue(value: any): string {
+        if (value === null || value === undefined) return '';
+        if (Array.isArray(value)) return value.join(';');
+        // Names, emails and requests come from guests
+        return typeof value === 'string' ? escapeCsvFormula(value) : String(value);
+    }
+}
+
+export default new BookingExportService();
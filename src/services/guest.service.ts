@@ -0,0 +1,260 @@
+import supabase from '../config/supabase';
+import { nationalDigits, phoneDigits, toE164 } from '../utils/phone';
+
+export interface GuestIdentity {
+    name?: string | null;
+    email?: string | null;
+    phone?: string | null;
+}
+
+export interface GuestInput {
+    name?: string;
+    email?: string | null;
+    phone?: string | null;
+    allergies?: string[];
+    seatingPreferences?: string | null;
+    tags?: string[];
+    notes?: string | null;
+}
+
+export type GuestSort = 'recent' | 'visits' | 'name';
+
+export interface GuestListQuery {
+    q?: string;
+    tag?: string;
+    sort?: GuestSort;
+    limit?: number;
+    offset?: number;
+}
+
+/** Tags with meaning to hosts; any other lowercase tag is allowed too */
+export const GUEST_TAGS = ['vip', 'blacklist', 'regular', 'press', 'staff'];
+
+// Fewer digits than this aren't enough to tell guests apart
+const MIN_PHONE_DIGITS = 7;
+
+export class GuestService {
+    normalizeEmail(email?: string | null): string | null {
+        const trimmed = String(email || '').trim().toLowerCase();
+        return trimmed || null;
+    }
+
+    /**
+     * E.164 form of a phone number, so "+1 555 123 4567" and "555 123 4567" are the same guest
+     */
+    normalizePhone(phone?: string | null): string | null {
+        if (phoneDigits(phone).length < MIN_PHONE_DIGITS) return null;
+        return toE164(phone);
+    }
+
+    /**
+     * phone_digits a profile with this number may have. Profiles saved before numbers were
+     * normalised keep the digits as they were typed, with or without the calling code.
+     */
+    private phoneKeys(phone: string, typed?: string | null): string[] {
+        const keys = [phoneDigits(phone), nationalDigits(phone), phoneDigits(typed)];
+        return [...new Set(keys.filter((key): key is string => !!key))];
+    }
+
+    /**
+     * Find a guest by email, then by phone number
+     */
+    async findGuest(restaurantId: string, identity: GuestIdentity): Promise<any | null> {
+        const email = this.normalizeEmail(identity.email);
+        const phone = this.normalizePhone(identity.phone);
+
+        if (email) {
+            const { data: guest } = await supabase
+                .from('guests')
+                .select('*')
+                .eq('restaurant_id', restaurantId)
+                .eq('email', email)
+                .maybeSingle();
+            if (guest) return guest;
+        }
+
+        if (phone) {
+            const { data: guests } = await supabase
+                .from('guests')
+                .select('*')
+                .eq('restaurant_id', restaurantId)
+                .in('phone_digits', this.phoneKeys(phone, identity.phone))
+                .limit(1);
+            if (guests?.[0]) return guests[0];
+        }
+
+        return null;
+    }
+
+    /**
+     * Find the guest for a booking or email, creating one when there is an email or phone
+     * to key it on, and filling in contact details the profile is missing
+     */
+    async findOrCreateGuest(restaurantId: string, identity: GuestIdentity): Promise<any | null> {
+        const email = this.normalizeEmail(identity.email);
+        const phone = this.normalizePhone(identity.phone);
+        if (!email && !phone) return null;
+
+        const existing = await this.findGuest(restaurantId, identity);
+        if (existing) {
+            const missing: any = {};
+            if (!existing.email && email) missing.email = email;
+            // Also rewrites a number saved before normalisation, so it matches directly next time
+            if (phone && existing.phone !== phone
+                && (!existing.phone_digits || this.phoneKeys(phone, identity.phone).includes(existing.phone_digits))) {
+                missing.phone = phone;
+            }
+            if (!existing.name && identity.name) missing.name = identity.name;
+
+            if (Object.keys(missing).length === 0) return existing;
+
+            // Another profile may already own the email or phone; keep this one as it is then
+            const { data: updated } = await supabase
+                .from('guests')
+                .update(missing)
+                .eq('id', existing.id)
+                .select()
+                .single();
+            return updated || existing;
+        }
+
+        const { data: guest, error } = await supabase
+            .from('guests')
+            .insert({
+                restaurant_id: restaurantId,
+                name: identity.name || null,
+                email,
+                phone
+            })
+            .select()
+            .single();
+
+        // Created concurrently by another booking for the same guest
+        if (error?.code === '23505') {
+            return this.findGuest(restaurantId, identity);
+        }
+        if (error) throw error;
+
+        return guest;
+    }
+
+    /**
+     * Guest id to store on a booking, call or email; failures are logged and never block the caller
+     */
+    async linkGuest(restaurantId: string, identity: GuestIdentity, create: boolean = true): Promise<string | null> {
+        try {
+            const guest = create
+                ? await this.findOrCreateGuest(restaurantId, identity)
+                : await this.findGuest(restaurantId, identity);
+            return guest?.id || null;
+        } catch (error) {
+            console.error('Guest link error:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Recount visits, no-shows and cancellations from the guest's bookings
+     */
+    async refreshStats(guestId: string): Promise<void> {
+        const { data: bookings, error } = await supabase
+            .from('bookings')
+            .select('status, booking_date')
+            .eq('guest_id', guestId);
+
+        if (error) {
+            console.error('Guest stats error:', error);
+            return;
+        }
+
+        const visits = (bookings || []).filter(b => b.status === 'completed');
+        const lastVisit = visits.map(b => b.booking_date).sort().pop() || null;
+
+        await supabase
+            .from('guests')
+            .update({
+                visit_count: visits.length,
+                last_visit_date: lastVisit,
+                no_show_count: (bookings || []).filter(b => b.status === 'no_show').length,
+                cancellation_count: (bookings || []).filter(b => b.status === 'cancelled').length
+            })
+            .eq('id', guestId);
+    }
+
+    /**
+     * Validate guest fields from the dashboard, returns an error message or null
+     */
+    validateGuest(input: GuestInput, creating: boolean): string | null {
+        if (creating && !input.name && !input.email && !input.phone) {
+            return 'A guest needs a name, email or phone number';
+        }
+        if (input.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email)) {
+            return 'Invalid email address';
+        }
+        if (input.phone && !this.normalizePhone(input.phone)) {
+            return 'Invalid phone number';
+        }
+        for (const key of ['allergies', 'tags'] as const) {
+            const value = input[key];
+            if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+                return `${key} must be a list of strings`;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Turn API fields into guest columns, dropping ones that weren't sent
+     */
+    toColumns(input: GuestInput): any {
+        const columns: any = {};
+        if (input.name !== undefined) columns.name = input.name;
+        if (input.email !== undefined) columns.email = this.normalizeEmail(input.email);
+        if (input.phone !== undefined) columns.phone = this.normalizePhone(input.phone);
+        if (input.allergies !== undefined) columns.allergies = input.allergies.map(a => a.trim()).filter(Boolean);
+        if (input.seatingPreferences !== undefined) columns.seating_preferences = input.seatingPreferences;
+        if (input.tags !== undefined) columns.tags = [...new Set(input.tags.map(t => t.trim().toLowerCase()).filter(Boolean))];
+        if (input.notes !== undefined) columns.notes = input.notes;
+        return columns;
+    }
+
+    /**
+     * Search guests by name, email or phone, optionally with a tag
+     */
+    async listGuests(restaurantId: string, query: GuestListQuery): Promise<{ guests: any[]; total: number }> {
+        const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 100);
+        const offset = Math.max(Number(query.offset) || 0, 0);
+
+        let request = supabase
+            .from('guests')
+            .select('*', { count: 'exact' })
+            .eq('restaurant_id', restaurantId);
+
+        // Characters that would break out of the PostgREST filter syntax are dropped
+        const text = (query.q || '').replace(/[,()*%\\]/g, ' ').trim();
+        if (text) {
+            const filters = [`name.ilike.%${text}%`, `email.ilike.%${text}%`];
+            const digits = phoneDigits(text);
+            if (digits.length >= 4) filters.push(`phone_digits.like.%${digits}%`);
+            request = request.or(filters.join(','));
+        }
+        if (query.tag) {
+            request = request.contains('tags', [query.tag.toLowerCase()]);
+        }
+
+        if (query.sort === 'visits') {
+            request = request.order('visit_count', { ascending: false });
+        } else if (query.sort === 'name') {
+            request = request.order('name', { ascending: true });
+        } else {
+            request = request.order('last_visit_date', { ascending: false, nullsFirst: false }).order('created_at', { ascending: false });
+        }
+
+        const { data, count, error } = await request.range(offset, offset + limit - 1);
+        if (error) throw error;
+
+        return { guests: data || [], total: count || 0 };
+    }
+}
+
+export default new GuestService();
@@ -0,0 +1,192 @@
+import supabase from '../config/supabase';
+import { WEEKDAYS, Weekday, getWeekday, normalizeTime, timeToMinutes } from '../utils/datetime';
+
+export interface ServicePeriod {
+    name: string;
+    open: string;
+    close: string;
+    lastSeating?: string;
+}
+
+export type WeeklyHours = Partial<Record<Weekday, ServicePeriod[]>>;
+
+export interface OpeningHoursCheck {
+    open: boolean;
+    period?: ServicePeriod;
+    reason?: 'closed' | 'outside_hours';
+    message?: string;
+}
+
+export class HoursService {
+    /**
+     * Parse restaurants.opening_hours into structured weekly hours.
+     * Returns null when hours are missing or free text, meaning "no restriction".
+     */
+    parseWeeklyHours(raw: any): WeeklyHours | null {
+        let value = raw;
+        if (typeof value === 'string') {
+            try {
+                value = JSON.parse(value);
+            } catch {
+                return null;
+            }
+        }
+
+        if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+        if (!WEEKDAYS.some(day => day in value)) return null;
+
+        const weekly: WeeklyHours = {};
+        for (const day of WEEKDAYS) {
+            weekly[day] = this.parsePeriods(value[day]);
+        }
+        return weekly;
+    }
+
+    /**
+     * Validate structured weekly hours before saving, returns an error message or null
+     */
+    validateWeeklyHours(raw: any): string | null {
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            return 'Opening hours must be an object keyed by weekday';
+        }
+
+        for (const [day, periods] of Object.entries(raw)) {
+            if (!(WEEKDAYS as readonly string[]).includes(day)) {
+                return `Unknown weekday: ${day}`;
+            }
+            const error = this.validatePeriods(periods);
+            if (error) return `${day}: ${error}`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Validate a list of service periods, returns an error message or null
+     */
+    validatePeriods(periods: any): string | null {
+        if (!Array.isArray(periods)) return 'Service periods must be a list';
+
+        for (const period of periods) {
+            if (!period?.open || !period?.close) return 'Each service period needs open and close times';
+            if (!/^\d{1,2}:\d{2}/.test(period.open) || !/^\d{1,2}:\d{2}/.test(period.close)) {
+                return 'Times must be in HH:MM format';
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Get the service periods that apply on a given date, taking closures and holiday hours into account
+     */
+    async getServicePeriods(restaurant: any, date: string): Promise<{ periods: ServicePeriod[] | null; note?: string }> {
+        const { data: special } = await supabase
+            .from('special_hours')
+            .select('*')
+            .eq('restaurant_id', restaurant.id)
+            .eq('date', date)
+            .maybeSingle();
+
+        if (special) {
+            return {
+                periods: special.is_closed ? [] : this.parsePeriods(special.service_periods),
+                note: special.note || undefined
+            };
+        }
+
+        const weekly = this.parseWeeklyHours(restaurant.opening_hours);
+        if (!weekly) return { periods: null };
+
+        return { periods: weekly[getWeekday(date)] || [] };
+    }
+
+    /**
+     * Check that a requested date and time fall inside a service period
+     */
+    async checkOpeningHours(restaurant: any, date: string, time: string): Promise<OpeningHoursCheck> {
+        const { periods, note } = await this.getServicePeriods(restaurant, date);
+        return this.evaluateOpeningHours(periods, date, time, note);
+    }
+
+    /**
+     * Match a time against already-loaded service periods for a date
+     */
+    evaluateOpeningHours(periods: ServicePeriod[] | null, date: string, time: string, note?: string): OpeningHoursCheck {
+        // No structured hours configured: accept any time
+        if (periods === null) return { open: true };
+
+        if (periods.length === 0) {
+            const why = note ? ` (${note})` : '';
+            return {
+                open: false,
+                reason: 'closed',
+                message: `Sorry, we are closed on ${this.describeDate(date)}${why}.`
+            };
+        }
+
+        const minutes = timeToMinutes(normalizeTime(time) || time);
+        const period = periods.find(p => {
+            const open = timeToMinutes(p.open);
+            let lastSeating = timeToMinutes(p.lastSeating || p.close);
+            if (lastSeating <= open) lastSeating += 24 * 60; // Service runs past midnight
+            return minutes >= open && minutes < lastSeating;
+        });
+
+        if (!period) {
+            return {
+                open: false,
+                reason: 'outside_hours',
+                message: `Sorry, we don't take bookings at ${normalizeTime(time) || time} on ${this.describeDate(date)}. ${this.describePeriods(periods)}`
+            };
+        }
+
+        return { open: true, period };
+    }
+
+    /**
+     * Human-readable weekly hours for the assistant prompt
+     */
+    formatWeeklyHours(raw: any): string | null {
+        const weekly = this.parseWeeklyHours(raw);
+        if (!weekly) return typeof raw === 'string' && raw.trim() ? raw : null;
+
+        return WEEKDAYS.map(day => {
+            const periods = weekly[day] || [];
+            const label = day.charAt(0).toUpperCase() + day.slice(1);
+            if (periods.length === 0) return `${label}: closed`;
+            return `${label}: ${periods.map(p => `${p.name} ${p.open}-${p.close}`).join(', ')}`;
+        }).join('; ');
+    }
+
+    /**
+     * Describe service periods so the assistant can redirect the caller
+     */
+    describePeriods(periods: ServicePeriod[]): string {
+        const parts = periods.map(p => `${p.name} from ${p.open} to ${p.lastSeating || p.close}`);
+        return `We take bookings for ${parts.join(' and ')}.`;
+    }
+
+    private describeDate(date: string): string {
+        const day = getWeekday(date);
+        return `${day.charAt(0).toUpperCase() + day.slice(1)}, ${date}`;
+    }
+
+    private parsePeriods(raw: any): ServicePeriod[] {
+        if (!raw) return [];
+
+        // Legacy shape: { open, close } or { closed: true }
+        const list = Array.isArray(raw) ? raw : [raw];
+
+        return list
+            .filter((p: any) => p && !p.closed && p.open && p.close)
+            .map((p: any, index: number) => ({
+                name: p.name || (list.length > 1 ? `service ${index + 1}` : 'service'),
+                open: normalizeTime(p.open)!,
+                close: normalizeTime(p.close)!,
+                lastSeating: p.lastSeating ? normalizeTime(p.lastSeating) : undefined
+            }));
+    }
+}
+
+export default new HoursService();
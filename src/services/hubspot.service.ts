@@ -112,12 +112,13 @@ export class HubSpotService {
     /**
      * Update deal status
      */
-    async updateDealStatus(dealId: string, status: 'confirmed' | 'cancelled' | 'completed'): Promise<any> {
+    async updateDealStatus(dealId: string, status: 'confirmed' | 'cancelled' | 'completed' | 'no_show'): Promise<any> {
         try {
             const stageMap = {
                 confirmed: 'appointmentscheduled',
                 cancelled: 'closedlost',
-                completed: 'closedwon'
+                completed: 'closedwon',
+                no_show: 'closedlost'
             };
 
             const response = await hubspotClient.crm.deals.basicApi.update(dealId, {
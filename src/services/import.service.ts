@@ -0,0 +1,292 @@
+import supabase from '../config/supabase';
+import availabilityService from './availability.service';
+import bookingService from './booking.service';
+import { BookingActor } from './audit.service';
+import { parseCsvRecords } from '../utils/csv';
+import { normalizeDate, normalizeTime, restaurantTimeZone, toZonedDateTime } from '../utils/datetime';
+
+export type ImportField = 'guestName' | 'guestEmail' | 'guestPhone' | 'date' | 'time' | 'partySize'
+    | 'specialRequests' | 'confirmationNumber';
+
+/** CSV column for each booking field, e.g. { guestName: "Customer", partySize: "Covers" } */
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportOptions {
+    mapping?: ImportMapping;
+    dryRun?: boolean;
+    sendConfirmations?: boolean; // Email guests their new confirmation, off by default
+    queueSync?: boolean; // Push bookings to HubSpot and Google Calendar in the background after the import
+    actor: BookingActor;
+}
+
+export interface ImportRowResult {
+    row: number; // Line in the file, counting the header as line 1
+    status: 'valid' | 'invalid' | 'created' | 'failed';
+    errors: string[];
+    booking?: {
+        guestName: string;
+        date: string;
+        time: string;
+        partySize: number;
+        confirmationNumber?: string;
+    };
+}
+
+export interface ImportResult {
+    dryRun: boolean;
+    total: number;
+    valid: number;
+    invalid: number;
+    created: number;
+    syncQueued: boolean;
+    rows: ImportRowResult[];
+    error?: string;
+}
+
+export const MAX_IMPORT_ROWS = 2000;
+
+/** Header names recognised without a mapping, compared lowercase without spaces or punctuation */
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    guestName: ['name', 'guestname', 'guest', 'fullname', 'customer', 'customername'],
+    guestEmail: ['email', 'guestemail', 'emailaddress', 'mail'],
+    guestPhone: ['phone', 'guestphone', 'phonenumber', 'mobile', 'telephone', 'tel'],
+    date: ['date', 'bookingdate', 'reservationdate', 'day'],
+    time: ['time', 'bookingtime', 'reservationtime', 'arrival', 'arrivaltime'],
+    partySize: ['partysize', 'party', 'covers', 'guests', 'pax', 'people', 'size'],
+    specialRequests: ['notes', 'specialrequests', 'requests', 'comments', 'note'],
+    confirmationNumber: ['confirmationnumber', 'confirmation', 'reference', 'ref', 'bookingref', 'code']
+};
+
+interface ValidRow {
+    row: number;
+    input: {
+        guestName: string;
+        guestEmail?: string;
+        guestPhone?: string;
+        date: string;
+        time: string;
+        partySize: number;
+        specialRequests?: string;
+        confirmationNumber?: string;
+    };
+}
+
+export class BookingImportService {
+    /**
+     * Validate a CSV of reservations and, unless it is a dry run, create the valid ones
+     */
+    async importBookings(restaurant: any, csv: string, options: ImportOptions): Promise<ImportResult> {
+        const { headers, records } = parseCsvRecords(csv);
+        const dryRun = !!options.dryRun;
+        const empty: ImportResult = { dryRun, total: records.length, valid: 0, invalid: 0, created: 0, syncQueued: false, rows: [] };
+
+        if (records.length === 0) {
+            return { ...empty, error: 'The file has no reservations' };
+        }
+        if (records.length > MAX_IMPORT_ROWS) {
+            return { ...empty, error: `Import at most ${MAX_IMPORT_ROWS} reservations at a time` };
+        }
+
+        const columns = this.resolveColumns(headers, options.mapping || {});
+        const missing = (['guestName', 'date', 'time', 'partySize'] as ImportField[]).filter(field => !columns[field]);
+        if (missing.length) {
+            return { ...empty, error: `No column found for ${missing.join(', ')}. Map them to columns in your file.` };
+        }
+
+        const { rows, valid } = await this.validateRows(restaurant, records, columns);
+
+        if (dryRun) {
+            return { ...empty, valid: valid.length, invalid: records.length - valid.length, rows };
+        }
+
+        const created: any[] = [];
+        for (const { row, input } of valid) {
+            const result = rows.find(r => r.row === row)!;
+
+            // Earlier rows are now real bookings, so this re-checks against them
+            const outcome = await bookingService.createBooking(restaurant, input, {
+                source: 'import',
+                actor: options.actor,
+                notifyGuest: !!options.sendConfirmations,
+                notifyRestaurant: false,
+                ignoreBookingWindow: true,
+                skipPayment: true,
+                syncIntegrations: false
+            });
+
+            if (outcome.success) {
+                result.status = 'created';
+                result.booking!.confirmationNumber = outcome.booking.confirmation_number;
+                created.push(outcome.booking);
+            } else {
+                result.status = 'failed';
+                result.errors.push(outcome.error || 'Failed to create booking');
+            }
+        }
+
+        const syncQueued = !!options.queueSync && created.length > 0;
+        if (syncQueued) {
+            this.queueIntegrationSync(restaurant, created);
+        }
+
+        return {
+            ...empty,
+            valid: valid.length,
+            invalid: records.length - valid.length,
+            created: created.length,
+            syncQueued,
+            rows
+        };
+    }
+
+    /**
+     * Check every row's fields, then seat it against existing bookings and the rows before it
+     */
+    private async validateRows(
+        restaurant: any,
+        records: Record<string, string>[],
+        columns: ImportMapping
+    ): Promise<{ rows: ImportRowResult[]; valid: ValidRow[] }> {
+        const rows: ImportRowResult[] = [];
+        const valid: ValidRow[] = [];
+        const accepted: any[] = [];
+        const codes = new Set<string>();
+        const now = toZonedDateTime(new Date(), restaurantTimeZone(restaurant));
+
+        const existingCodes = await this.findExistingCodes(
+            restaurant.id,
+            records.map(record => columns.confirmationNumber && record[columns.confirmationNumber]).filter(Boolean) as string[]
+        );
+
+        for (let index = 0; index < records.length; index++) {
+            const record = records[index];
+            const value = (field: ImportField) => (columns[field] ? record[columns[field]!] || '' : '');
+            const errors: string[] = [];
+
+            const guestName = value('guestName');
+            const guestEmail = value('guestEmail') || undefined;
+            const guestPhone = value('guestPhone') || undefined;
+            const date = normalizeDate(value('date')) || '';
+            const time = normalizeTime(value('time')) || '';
+            const partySize = Number(value('partySize'));
+            const confirmationNumber = value('confirmationNumber').toUpperCase() || undefined;
+
+            if (!guestName) errors.push('Guest name is missing');
+            if (guestEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(guestEmail)) errors.push(`"${guestEmail}" is not a valid email`);
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(`${date}T00:00:00Z`))) {
+                errors.push(`"${value('date')}" is not a valid date`);
+            }
+            if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) errors.push(`"${value('time')}" is not a valid time`);
+            if (!Number.isInteger(partySize) || partySize < 1) errors.push(`"${value('partySize')}" is not a valid party size`);
+            if (errors.length === 0 && (date < now.date || (date === now.date && time <= now.time))) {
+                errors.push('The reservation is in the past');
+            }
+            if (confirmationNumber) {
+                if (codes.has(confirmationNumber)) errors.push(`Confirmation number ${confirmationNumber} appears twice in the file`);
+                else if (existingCodes.has(confirmationNumber)) errors.push(`Confirmation number ${confirmationNumber} already exists`);
+                codes.add(confirmationNumber);
+            }
+
+            // Hours, closures, pacing and tables, counting the rows accepted so far
+            if (errors.length === 0) {
+                const availability = await availabilityService.checkAvailability(restaurant, {
+                    date,
+                    time,
+                    partySize,
+                    additionalBookings: accepted,
+                    ignoreBookingWindow: true
+                });
+
+                if (availability.available) {
+                    accepted.push({
+                        booking_date: date,
+                        booking_time: time,
+                        party_size: partySize,
+                        duration_minutes: availability.durationMinutes,
+                        table_ids: availability.tableIds || null
+                    });
+                } else {
+                    errors.push(availability.message || 'No table available');
+                }
+            }
+
+            const result: ImportRowResult = {
+                row: index + 2,
+                status: errors.length ? 'invalid' : 'valid',
+                errors,
+                booking: { guestName, date, time, partySize, confirmationNumber }
+            };
+            rows.push(result);
+
+            if (errors.length === 0) {
+                valid.push({
+                    row: result.row,
+                    input: {
+                        guestName,
+                        guestEmail,
+                        guestPhone,
+                        date,
+                        time,
+                        partySize,
+                        specialRequests: value('specialRequests') || undefined,
+                        confirmationNumber
+                    }
+                });
+            }
+        }
+
+        return { rows, valid };
+    }
+
+    /**
+     * Explicit mapping first, then recognised header names
+     */
+    private resolveColumns(headers: string[], mapping: ImportMapping): ImportMapping {
+        const simplify = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+        const columns: ImportMapping = {};
+
+        for (const field of Object.keys(HEADER_ALIASES) as ImportField[]) {
+            const mapped = mapping[field];
+            if (mapped && headers.includes(mapped)) {
+                columns[field] = mapped;
+                continue;
+            }
+            const match = headers.find(header => HEADER_ALIASES[field].includes(simplify(header)));
+            if (match) columns[field] = match;
+        }
+
+        return columns;
+    }
+
+    private async findExistingCodes(restaurantId: string, codes: string[]): Promise<Set<string>> {
+        if (codes.length === 0) return new Set();
+
+        const { data } = await supabase
+            .from('bookings')
+            .select('confirmation_number')
+            .eq('restaurant_id', restaurantId)
+            .in('confirmation_number', codes.map(code => code.toUpperCase()));
+
+        return new Set((data || []).map(b => b.confirmation_number));
+    }
+
+    /**
+     * Sync imported bookings to HubSpot and Google Calendar one at a time after the response
+     * has gone out, so a large import doesn't hold the request open or hit rate limits
+     */
+    private queueIntegrationSync(restaurant: any, bookings: any[]): void {
+        setImmediate(async () => {
+            console.log(`🔄 Syncing ${bookings.length} imported bookings for restaurant ${restaurant.id}`);
+            for (const booking of bookings) {
+                try {
+                    await bookingService.syncIntegrations(restaurant, booking, 'import');
+                } catch (syncError) {
+                    console.error('Import sync error:', syncError);
+                }
+            }
+            console.log(`✅ Finished syncing imported bookings for restaurant ${restaurant.id}`);
+        });
+    }
+}
+
+export default new BookingImportService();
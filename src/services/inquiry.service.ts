@@ -0,0 +1,301 @@
+import { v4 as uuidv4 } from 'uuid';
+import supabase from '../config/supabase';
+import emailService from './email.service';
+import bookingService from './booking.service';
+import availabilityService from './availability.service';
+import seatingService from './seating.service';
+import { BookingActor } from './audit.service';
+import { normalizeTime } from '../utils/datetime';
+
+export interface InquiryInput {
+    guestName: string;
+    guestEmail?: string;
+    guestPhone?: string;
+    date: string;
+    time: string;
+    partySize: number;
+    occasion?: string;
+    budget?: string;
+    menuPreferences?: string;
+    notes?: string;
+    source: string;
+}
+
+export interface InquiryResult {
+    success: boolean;
+    inquiry?: any;
+    booking?: any;
+    error?: string;
+}
+
+/** Inquiries staff can still respond to */
+const OPEN_STATUSES = ['pending', 'countered'];
+
+export class InquiryService {
+    /**
+     * Record a large-party or private dining request and let the restaurant know
+     */
+    async createInquiry(restaurant: any, input: InquiryInput): Promise<any> {
+        const { data: inquiry, error } = await supabase
+            .from('booking_inquiries')
+            .insert({
+                restaurant_id: restaurant.id,
+                guest_name: input.guestName,
+                guest_email: input.guestEmail,
+                guest_phone: input.guestPhone,
+                requested_date: input.date,
+                requested_time: normalizeTime(input.time),
+                party_size: input.partySize,
+                occasion: input.occasion,
+                budget: input.budget,
+                menu_preferences: input.menuPreferences,
+                notes: input.notes,
+                source: input.source,
+                status: 'pending'
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating inquiry:', error);
+            throw error;
+        }
+
+        if (restaurant.email) {
+            try {
+                await emailService.sendRestaurantNotification({
+                    to: restaurant.email,
+                    subject: 'New Large Party Request',
+                    message: `${input.guestName} would like a table for ${input.partySize} on ${input.date} at ${normalizeTime(input.time)}. Occasion: ${input.occasion || 'Not given'}. Budget: ${input.budget || 'Not given'}. Menu preferences: ${input.menuPreferences || 'None'}. Contact: ${input.guestPhone || input.guestEmail || 'N/A'}. Approve, decline or propose another time from the dashboard.`
+                });
+            } catch (emailError) {
+                console.error('Inquiry notification error:', emailError);
+            }
+        }
+
+        return inquiry;
+    }
+
+    /**
+     * Approve a request and turn it into a confirmed booking, optionally at adjusted details.
+     * Staff can pick the tables themselves, e.g. when the party is larger than any combination.
+     */
+    async approve(
+        restaurant: any,
+        inquiry: any,
+        changes: { date?: string; time?: string; partySize?: number; tableIds?: string[]; message?: string },
+        actor: BookingActor
+    ): Promise<InquiryResult> {
+        if (!OPEN_STATUSES.includes(inquiry.status)) {
+            return { success: false, error: `This request has already been ${inquiry.status}` };
+        }
+
+        // An approved counter-proposal books the proposed details
+        const date = changes.date || inquiry.proposed_date || inquiry.requested_date;
+        const time = changes.time || inquiry.proposed_time || inquiry.requested_time;
+        const partySize = changes.partySize || inquiry.proposed_party_size || inquiry.party_size;
+
+        // Overriding the booking window still can't book a time that has gone
+        const window = availabilityService.checkBookingWindow(restaurant, date, normalizeTime(time) || time);
+        if (window?.reason === 'in_the_past') {
+            return { success: false, error: `${date} at ${normalizeTime(time)} has already passed. Propose another time instead.` };
+        }
+
+        const tableIds = changes.tableIds?.length ? changes.tableIds : undefined;
+        if (tableIds) {
+            const check = await seatingService.checkTables(restaurant, {
+                booking_date: date,
+                booking_time: normalizeTime(time) || time,
+                party_size: partySize,
+                duration_minutes: await availabilityService.getBookingDuration(restaurant, date, time, partySize)
+            }, tableIds);
+            if (check.error) return { success: false, error: check.error };
+            if (check.conflicts.length > 0) {
+                return { success: false, error: 'Another party has one of those tables at that time' };
+            }
+        }
+
+        // Staff approval overrides opening hours, pacing and the online party size limit, but the
+        // party still needs free tables: the ones staff picked, or a table or combination that fits.
+        // The guest gets the usual confirmation with manage and payment links.
+        const result = await bookingService.createBooking(restaurant, {
+            guestName: inquiry.guest_name,
+            guestEmail: inquiry.guest_email,
+            guestPhone: inquiry.guest_phone,
+            date,
+            time,
+            partySize,
+            tableIds,
+            specialRequests: this.describeRequest(inquiry)
+        }, {
+            source: inquiry.source,
+            ignoreServiceRules: !tableIds,
+            skipAvailabilityCheck: !!tableIds,
+            notifyRestaurant: false,
+            idempotencyKey: `inquiry:${inquiry.id}`,
+            actor
+        });
+
+        if (!result.success) {
+            if (result.availability && !result.availability.available) {
+                return {
+                    success: false,
+                    error: `No free tables seat ${partySize} on ${date} at ${normalizeTime(time)}. Choose tables for the party, free some up or propose another time.`
+                };
+            }
+            return { success: false, error: result.error || 'Failed to create booking' };
+        }
+
+        const updated = await this.respond(inquiry, 'approved', {
+            response_message: changes.message,
+            booking_id: result.booking.id,
+            proposal_token: null
+        });
+
+        // A repeated approval finds the booking the first one made; the guest was told then
+        if (!result.duplicate) {
+            await this.notifyGuest(restaurant, updated, 'approved', {
+                date,
+                time,
+                partySize,
+                message: changes.message,
+                confirmationNumber: result.booking.confirmation_number
+            });
+        }
+
+        return { success: true, inquiry: updated, booking: result.booking };
+    }
+
+    /**
+     * Decline a request
+     */
+    async decline(restaurant: any, inquiry: any, message?: string): Promise<InquiryResult> {
+        if (!OPEN_STATUSES.includes(inquiry.status)) {
+            return { success: false, error: `This request has already been ${inquiry.status}` };
+        }
+
+        const updated = await this.respond(inquiry, 'declined', { response_message: message, proposal_token: null });
+
+        await this.notifyGuest(restaurant, updated, 'declined', {
+            date: inquiry.requested_date,
+            time: inquiry.requested_time,
+            partySize: inquiry.party_size,
+            message
+        });
+
+        return { success: true, inquiry: updated };
+    }
+
+    /**
+     * Propose different details to the guest, who can accept them from the link in the email
+     */
+    async counter(
+        restaurant: any,
+        inquiry: any,
+        proposal: { date?: string; time?: string; partySize?: number; message?: string }
+    ): Promise<InquiryResult> {
+        if (!OPEN_STATUSES.includes(inquiry.status)) {
+            return { success: false, error: `This request has already been ${inquiry.status}` };
+        }
+
+        const date = proposal.date || inquiry.requested_date;
+        const time = normalizeTime(proposal.time) || inquiry.requested_time;
+        const partySize = proposal.partySize || inquiry.party_size;
+
+        const token = uuidv4();
+        const updated = await this.respond(inquiry, 'countered', {
+            proposed_date: date,
+            proposed_time: time,
+            proposed_party_size: partySize,
+            response_message: proposal.message,
+            proposal_token: token
+        });
+
+        await this.notifyGuest(restaurant, updated, 'countered', {
+            date,
+            time,
+            partySize,
+            message: proposal.message,
+            acceptUrl: `${process.env.FRONTEND_URL}/requests/accept?token=${token}`
+        });
+
+        return { success: true, inquiry: updated };
+    }
+
+    /**
+     * Find a countered request by the token in its proposal email
+     */
+    async findByProposalToken(token: string): Promise<any | null> {
+        const { data: inquiry } = await supabase
+            .from('booking_inquiries')
+            .select('*')
+            .eq('proposal_token', token)
+            .single();
+
+        return inquiry || null;
+    }
+
+    /**
+     * The guest accepts the restaurant's proposal, booking it as if staff had approved it
+     */
+    async acceptProposal(restaurant: any, inquiry: any): Promise<InquiryResult> {
+        if (inquiry.status !== 'countered') {
+            return { success: false, error: `This request has already been ${inquiry.status}` };
+        }
+
+        return this.approve(restaurant, inquiry, {}, { type: 'guest', id: inquiry.id });
+    }
+
+    private async respond(inquiry: any, status: string, fields: any): Promise<any> {
+        const { data: updated, error } = await supabase
+            .from('booking_inquiries')
+            .update({ ...fields, status, responded_at: new Date().toISOString() })
+            .eq('id', inquiry.id)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error updating inquiry:', error);
+            throw error;
+        }
+
+        return updated;
+    }
+
+    private async notifyGuest(
+        restaurant: any,
+        inquiry: any,
+        outcome: 'approved' | 'declined' | 'countered',
+        details: { date: string; time: string; partySize: number; message?: string; confirmationNumber?: string; acceptUrl?: string }
+    ): Promise<void> {
+        if (!inquiry.guest_email) return;
+
+        try {
+            await emailService.sendInquiryOutcome({
+                to: inquiry.guest_email,
+                restaurantName: restaurant?.name || 'Restaurant',
+                guestName: inquiry.guest_name,
+                outcome,
+                date: details.date,
+                time: normalizeTime(details.time)!,
+                partySize: details.partySize,
+                message: details.message,
+                confirmationNumber: details.confirmationNumber,
+                acceptUrl: details.acceptUrl
+            });
+        } catch (emailError) {
+            console.error('Inquiry outcome email error:', emailError);
+        }
+    }
+
+    private describeRequest(inquiry: any): string {
+        return [
+            inquiry.occasion && `Occasion: ${inquiry.occasion}`,
+            inquiry.budget && `Budget: ${inquiry.budget}`,
+            inquiry.menu_preferences && `Menu: ${inquiry.menu_preferences}`,
+            inquiry.notes
+        ].filter(Boolean).join('. ');
+    }
+}
+
+export default new InquiryService();
@@ -0,0 +1,48 @@
+import jwt from 'jsonwebtoken';
+import { zonedTimeToUtc } from '../utils/datetime';
+
+// Links stay valid until a day after the booking so guests can still view it on the night
+const LINK_GRACE_HOURS = 24;
+
+export class ManageLinkService {
+    // Derived from JWT_SECRET by default so manage tokens can never pass as staff logins
+    private get secret(): string {
+        return process.env.MANAGE_LINK_SECRET || `${process.env.JWT_SECRET}:manage-booking`;
+    }
+
+    /**
+     * Create a signed token that lets the guest manage this booking
+     */
+    createToken(booking: any, timeZone: string = 'UTC'): string {
+        const startsAt = zonedTimeToUtc(booking.booking_date, booking.booking_time, timeZone);
+        const expiresAt = Math.floor(startsAt.getTime() / 1000) + LINK_GRACE_HOURS * 3600;
+        const minimum = Math.floor(Date.now() / 1000) + 3600;
+
+        return jwt.sign(
+            { bookingId: booking.id, purpose: 'manage_booking', exp: Math.max(expiresAt, minimum) },
+            this.secret
+        );
+    }
+
+    /**
+     * Guest-facing URL for managing a booking
+     */
+    createUrl(booking: any, timeZone?: string): string {
+        return `${process.env.FRONTEND_URL}/manage-booking?token=${this.createToken(booking, timeZone)}`;
+    }
+
+    /**
+     * Verify a manage token, returns the booking id or null when invalid or expired
+     */
+    verifyToken(token: string): string | null {
+        try {
+            const decoded = jwt.verify(token, this.secret) as any;
+            if (decoded?.purpose !== 'manage_booking' || !decoded.bookingId) return null;
+            return decoded.bookingId;
+        } catch {
+            return null;
+        }
+    }
+}
+
+export default new ManageLinkService();
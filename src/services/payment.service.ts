@@ -0,0 +1,394 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import supabase from '../config/supabase';
+import { getWeekday } from '../utils/datetime';
+
+export type PaymentKind = 'deposit' | 'guarantee';
+
+export interface DepositRule {
+    type: PaymentKind;
+    minPartySize?: number;
+    days?: string[]; // Weekdays, e.g. ["friday", "saturday"]
+    dates?: string[]; // Specific dates, e.g. ["2025-12-31"]
+    service?: string;
+    amountPerGuest?: number;
+    amount?: number;
+}
+
+export interface DepositRequirement {
+    type: PaymentKind;
+    amountCents: number;
+    currency: string;
+}
+
+export interface ProviderPayment {
+    id: string;
+    url: string;
+}
+
+export interface PaymentWebhookEvent {
+    providerPaymentId: string;
+    succeeded: boolean;
+}
+
+/**
+ * A card payment provider. Deposits are charged up front, guarantees only
+ * hold the card and are captured if the guest cancels late or does not show.
+ */
+export interface PaymentProvider {
+    readonly name: string;
+    createPayment(data: {
+        kind: PaymentKind;
+        amountCents: number;
+        currency: string;
+        description: string;
+        customerEmail?: string;
+        reference: string;
+    }): Promise<ProviderPayment>;
+    refund(providerPaymentId: string, amountCents: number): Promise<void>;
+    capture(providerPaymentId: string, amountCents: number): Promise<void>;
+    cancel(providerPaymentId: string): Promise<void>;
+    /** Check the webhook came from the provider, against the exact bytes received */
+    verifyWebhook(rawBody: Buffer | string, headers: Record<string, any>): boolean;
+    parseWebhook(body: any, headers: Record<string, any>): PaymentWebhookEvent | null;
+}
+
+/** How long a booking waiting for its deposit or card guarantee keeps its table */
+export const PAYMENT_HOLD_MINUTES = Number(process.env.PAYMENT_HOLD_MINUTES) || 60;
+
+/** Header carrying the hex HMAC-SHA256 of the webhook body */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-payment-signature';
+
+/**
+ * Compare an HMAC-SHA256 signature of the body with the one in the request, in constant time
+ */
+export function verifyHmacSignature(rawBody: Buffer | string, signature: any, secret: string): boolean {
+    if (typeof signature !== 'string' || !/^[a-f0-9]{64}$/i.test(signature)) return false;
+
+    const expected = createHmac('sha256', secret).update(rawBody).digest();
+    return timingSafeEqual(expected, Buffer.from(signature, 'hex'));
+}
+
+/**
+ * Local provider for development: payment links resolve against our own API
+ * and every operation succeeds without contacting a real processor.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = 'fake';
+
+    async createPayment(data: { kind: PaymentKind; amountCents: number; reference: string }): Promise<ProviderPayment> {
+        const id = `fake_${uuidv4()}`;
+        console.log(`💳 [fake] Created ${data.kind} ${id} for ${data.amountCents} cents (${data.reference})`);
+        return {
+            id,
+            url: `${process.env.BACKEND_URL || 'http://localhost:5000'}/api/payments/fake/${id}/pay`
+        };
+    }
+
+    async refund(providerPaymentId: string, amountCents: number): Promise<void> {
+        console.log(`💳 [fake] Refunded ${amountCents} cents on ${providerPaymentId}`);
+    }
+
+    async capture(providerPaymentId: string, amountCents: number): Promise<void> {
+        console.log(`💳 [fake] Captured ${amountCents} cents on ${providerPaymentId}`);
+    }
+
+    async cancel(providerPaymentId: string): Promise<void> {
+        console.log(`💳 [fake] Cancelled ${providerPaymentId}`);
+    }
+
+    /**
+     * Signed with PAYMENT_WEBHOOK_SECRET when it is set; unsigned calls are only accepted without one
+     */
+    verifyWebhook(rawBody: Buffer | string, headers: Record<string, any>): boolean {
+        const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+        if (!secret) return true;
+        return verifyHmacSignature(rawBody, headers[WEBHOOK_SIGNATURE_HEADER], secret);
+    }
+
+    parseWebhook(body: any): PaymentWebhookEvent | null {
+        if (!body?.paymentId) return null;
+        return { providerPaymentId: body.paymentId, succeeded: body.status !== 'failed' };
+    }
+}
+
+/**
+ * Used when no payment provider is configured: deposit rules are ignored and no links are created
+ */
+export class DisabledPaymentProvider implements PaymentProvider {
+    readonly name = 'none';
+
+    async createPayment(): Promise<ProviderPayment> {
+        throw new Error('Payments are disabled');
+    }
+
+    async refund(providerPaymentId: string): Promise<void> {
+        console.warn(`Payments are disabled, refund ${providerPaymentId} with the original provider`);
+    }
+
+    async capture(providerPaymentId: string): Promise<void> {
+        console.warn(`Payments are disabled, capture ${providerPaymentId} with the original provider`);
+    }
+
+    async cancel(): Promise<void> {}
+
+    verifyWebhook(): boolean {
+        return false;
+    }
+
+    parseWebhook(): PaymentWebhookEvent | null {
+        return null;
+    }
+}
+
+export class PaymentService {
+    readonly provider: PaymentProvider;
+
+    constructor(provider?: PaymentProvider) {
+        // Deposits stay off until a provider is configured
+        this.provider = provider || this.createProvider(process.env.PAYMENT_PROVIDER || 'none');
+
+        // The fake provider confirms deposits for anyone holding the link
+        if (process.env.NODE_ENV === 'production' && this.provider.name === 'fake') {
+            throw new Error('PAYMENT_PROVIDER must be set to a real payment provider in production');
+        }
+    }
+
+    /**
+     * Work out whether a booking needs a deposit or card guarantee; the first matching rule wins
+     */
+    getDepositRequirement(restaurant: any, date: string, partySize: number, servicePeriod?: string): DepositRequirement | null {
+        if (this.provider.name === 'none') return null;
+
+        const rules = this.parseRules(restaurant?.deposit_rules);
+        const weekday = getWeekday(date);
+
+        const rule = rules.find(r =>
+            (!r.minPartySize || partySize >= r.minPartySize) &&
+            (!r.days || r.days.map(d => d.toLowerCase()).includes(weekday)) &&
+            (!r.dates || r.dates.includes(date)) &&
+            (!r.service || r.service.toLowerCase() === servicePeriod?.toLowerCase())
+        );
+        if (!rule) return null;
+
+        const amount = (rule.amount || 0) + (rule.amountPerGuest || 0) * partySize;
+        if (amount <= 0) return null;
+
+        return {
+            type: rule.type,
+            amountCents: Math.round(amount * 100),
+            currency: restaurant?.currency || 'USD'
+        };
+    }
+
+    /**
+     * Validate deposit rules before saving, returns an error message or null
+     */
+    validateDepositRules(raw: any): string | null {
+        if (!Array.isArray(raw)) return 'Deposit rules must be a list';
+
+        for (const rule of raw) {
+            if (!rule || !['deposit', 'guarantee'].includes(rule.type)) {
+                return 'Each deposit rule needs a type of deposit or guarantee';
+            }
+            if (!rule.amount && !rule.amountPerGuest) {
+                return 'Each deposit rule needs an amount or amountPerGuest';
+            }
+            if ((rule.amount && rule.amount < 0) || (rule.amountPerGuest && rule.amountPerGuest < 0)) {
+                return 'Deposit amounts must be positive';
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Create the provider payment for a booking and store it with a payment link
+     */
+    async createForBooking(restaurant: any, booking: any, requirement: DepositRequirement): Promise<any> {
+        const providerPayment = await this.provider.createPayment({
+            kind: requirement.type,
+            amountCents: requirement.amountCents,
+            currency: requirement.currency,
+            description: `${restaurant?.name || 'Restaurant'} - ${booking.booking_date} ${booking.booking_time} (${booking.party_size} guests)`,
+            customerEmail: booking.guest_email,
+            reference: booking.confirmation_number
+        });
+
+        const { data: payment, error } = await supabase
+            .from('booking_payments')
+            .insert({
+                booking_id: booking.id,
+                restaurant_id: booking.restaurant_id,
+                provider: this.provider.name,
+                provider_payment_id: providerPayment.id,
+                kind: requirement.type,
+                amount_cents: requirement.amountCents,
+                currency: requirement.currency,
+                payment_url: providerPayment.url,
+                status: 'pending'
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error storing booking payment:', error);
+            throw error;
+        }
+
+        return payment;
+    }
+
+    /**
+     * Record a successful payment; deposits become paid, guarantees authorized
+     */
+    async markSucceeded(providerPaymentId: string): Promise<any | null> {
+        const { data: payment } = await supabase
+            .from('booking_payments')
+            .select('*')
+            .eq('provider_payment_id', providerPaymentId)
+            .single();
+
+        if (!payment) return null;
+        if (payment.status !== 'pending') return payment;
+
+        const { data: updated, error } = await supabase
+            .from('booking_payments')
+            .update({
+                status: payment.kind === 'deposit' ? 'paid' : 'authorized',
+                paid_at: new Date().toISOString()
+            })
+            .eq('id', payment.id)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error updating booking payment:', error);
+            throw error;
+        }
+
+        return updated;
+    }
+
+    /**
+     * Record a failed payment attempt; the link stays usable
+     */
+    async markFailed(providerPaymentId: string): Promise<void> {
+        await supabase
+            .from('booking_payments')
+            .update({ last_failed_at: new Date().toISOString() })
+            .eq('provider_payment_id', providerPaymentId)
+            .eq('status', 'pending');
+    }
+
+    /**
+     * Get all payments for a booking
+     */
+    async getBookingPayments(bookingId: string): Promise<any[]> {
+        const { data: payments } = await supabase
+            .from('booking_payments')
+            .select('*')
+            .eq('booking_id', bookingId)
+            .order('created_at', { ascending: true });
+
+        return payments || [];
+    }
+
+    /**
+     * Give back one payment that completed after its booking was cancelled
+     */
+    async refundPayment(payment: any): Promise<void> {
+        if (['refunded', 'released'].includes(payment.status)) return;
+
+        let update: any;
+        if (payment.kind === 'deposit') {
+            await this.provider.refund(payment.provider_payment_id, payment.amount_cents);
+            update = { status: 'refunded', refunded_at: new Date().toISOString() };
+        } else {
+            await this.provider.cancel(payment.provider_payment_id);
+            update = { status: 'released' };
+        }
+
+        await supabase
+            .from('booking_payments')
+            .update(update)
+            .eq('id', payment.id);
+    }
+
+    /**
+     * Refund, release or forfeit a booking's payments once it is cancelled, a no-show or completed.
+     * Whether a cancellation or no-show forfeits comes from the cancellation policy.
+     */
+    async settleBookingPayments(booking: any, status: 'cancelled' | 'no_show' | 'completed', forfeit: boolean): Promise<void> {
+        const payments = (await this.getBookingPayments(booking.id))
+            .filter(p => ['pending', 'paid', 'authorized'].includes(p.status));
+
+        const refundable = status === 'completed' || !forfeit;
+
+        for (const payment of payments) {
+            let update: any;
+
+            if (payment.status === 'pending') {
+                // Never paid, just close the link
+                await this.provider.cancel(payment.provider_payment_id);
+                update = { status: 'cancelled' };
+            } else if (payment.kind === 'deposit') {
+                // A completed visit keeps the deposit against the bill
+                if (status === 'completed') continue;
+                if (refundable) {
+                    await this.provider.refund(payment.provider_payment_id, payment.amount_cents);
+                    update = { status: 'refunded', refunded_at: new Date().toISOString() };
+                } else {
+                    update = { status: 'forfeited', forfeited_at: new Date().toISOString() };
+                }
+            } else if (refundable) {
+                await this.provider.cancel(payment.provider_payment_id);
+                update = { status: 'released' };
+            } else {
+                await this.provider.capture(payment.provider_payment_id, payment.amount_cents);
+                update = { status: 'forfeited', forfeited_at: new Date().toISOString() };
+            }
+
+            await supabase
+                .from('booking_payments')
+                .update(update)
+                .eq('id', payment.id);
+        }
+    }
+
+    /**
+     * Format an amount in cents for emails and the assistant
+     */
+    formatAmount(amountCents: number, currency: string): string {
+        try {
+            return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amountCents / 100);
+        } catch {
+            return `${(amountCents / 100).toFixed(2)} ${currency}`;
+        }
+    }
+
+    private parseRules(raw: any): DepositRule[] {
+        let value = raw;
+        if (typeof value === 'string') {
+            try {
+                value = JSON.parse(value);
+            } catch {
+                return [];
+            }
+        }
+        return Array.isArray(value) ? value : [];
+    }
+
+    private createProvider(name: string): PaymentProvider {
+        switch (name) {
+            case 'fake':
+                return new FakePaymentProvider();
+            case 'none':
+                return new DisabledPaymentProvider();
+            default:
+                throw new Error(`Unknown payment provider: ${name}`);
+        }
+    }
+}
+
+export default new PaymentService();
@@ -0,0 +1,73 @@
+import supabase from '../config/supabase';
+import { normalizeConfirmationCode } from '../utils/confirmationCode';
+import { phoneDigits } from '../utils/phone';
+
+export type SearchSort = 'relevance' | 'time' | 'time_desc';
+
+export interface BookingSearchQuery {
+    q?: string;
+    from?: string;
+    to?: string;
+    minPartySize?: number;
+    maxPartySize?: number;
+    sources?: string[];
+    statuses?: string[];
+    sort?: SearchSort;
+    limit?: number;
+    offset?: number;
+}
+
+export interface BookingSearchResult {
+    bookings: any[]; // Each with a relevance score from 0 to 1
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+export const MAX_SEARCH_LIMIT = 100;
+
+// Shorter digit runs match too many phone numbers to be useful
+const MIN_PHONE_DIGITS = 4;
+
+export class BookingSearchService {
+    /**
+     * Search a restaurant's bookings. Matching and ranking run in the search_bookings
+     * database function against trigram indexes.
+     */
+    async searchBookings(restaurantId: string, query: BookingSearchQuery): Promise<BookingSearchResult> {
+        const text = (query.q || '').trim();
+        const digits = phoneDigits(text);
+        const code = normalizeConfirmationCode(text);
+        const limit = Math.min(Math.max(Number(query.limit) || 25, 1), MAX_SEARCH_LIMIT);
+        const offset = Math.max(Number(query.offset) || 0, 0);
+
+        const { data, error } = await supabase.rpc('search_bookings', {
+            p_restaurant_id: restaurantId,
+            p_query: text || null,
+            p_phone_digits: digits.length >= MIN_PHONE_DIGITS ? digits : null,
+            p_code: code.length >= 3 ? code : null,
+            p_date_from: query.from || null,
+            p_date_to: query.to || null,
+            p_min_party: query.minPartySize ?? null,
+            p_max_party: query.maxPartySize ?? null,
+            p_sources: query.sources?.length ? query.sources : null,
+            p_statuses: query.statuses?.length ? query.statuses : null,
+            p_sort: query.sort || (text ? 'relevance' : 'time'),
+            p_limit: limit,
+            p_offset: offset
+        });
+
+        if (error) throw error;
+
+        const rows = (data || []) as { booking: any; relevance: number; total_count: number }[];
+
+        return {
+            bookings: rows.map(row => ({ ...row.booking, relevance: Math.round(row.relevance * 100) / 100 })),
+            total: rows.length ? Number(rows[0].total_count) : 0,
+            limit,
+            offset
+        };
+    }
+}
+
+export default new BookingSearchService();
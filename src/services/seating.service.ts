@@ -0,0 +1,358 @@
+import supabase from '../config/supabase';
+import availabilityService, { DiningTable } from './availability.service';
+import bookingService from './booking.service';
+import auditService, { BookingActor } from './audit.service';
+import { ACTIVE_BOOKING_STATUSES, canTransition, holdsTable } from '../utils/bookingStatus';
+import { addDays, restaurantTimeZone, timeToMinutes, toZonedDateTime } from '../utils/datetime';
+import { publishFloorChange } from '../utils/floorEvents';
+
+/** Steps of a party's evening; seating and freeing the table also move the booking status */
+export type ServiceStage = 'arrived' | 'seated' | 'mains' | 'paid';
+
+export type TableStatus = 'free' | 'reserved' | ServiceStage;
+
+export interface SeatingResult {
+    success: boolean;
+    booking?: any;
+    conflicts?: any[];
+    error?: string;
+}
+
+export interface WalkInInput {
+    partySize: number;
+    guestName?: string;
+    guestPhone?: string;
+    tableIds?: string[];
+    area?: string;
+    specialRequests?: string;
+}
+
+export interface FloorTable {
+    table: DiningTable;
+    status: TableStatus;
+    current?: any; // Party at the table, or due at it soon
+    upcoming: any[]; // The table's other bookings later that day
+}
+
+export interface FloorView {
+    date: string;
+    time: string;
+    tables: FloorTable[];
+    unassigned: any[]; // Active bookings without a table yet
+}
+
+export interface TurnTimeStat {
+    partySize: number;
+    parties: number;
+    averageMinutes: number;
+    medianMinutes: number;
+    configuredMinutes: number;
+}
+
+/** A table counts as reserved this long before its next booking */
+const RESERVED_WINDOW_MINUTES = 30;
+
+const BOOKING_SUMMARY_FIELDS = 'id, guest_name, party_size, booking_time, duration_minutes, status, service_stage, table_ids, special_requests, confirmation_number, arrived_at, seated_at, payment_expires_at';
+
+export class SeatingService {
+    /**
+     * Assign or move a booking to tables, refusing tables another party holds at that time unless forced
+     */
+    async assignTables(restaurant: any, booking: any, tableIds: string[], actor: BookingActor, force: boolean = false): Promise<SeatingResult> {
+        if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+            return { success: false, error: `A ${booking.status} booking can't be given a table` };
+        }
+
+        const check = await this.checkTables(restaurant, booking, tableIds);
+        if (check.error) return { success: false, error: check.error };
+        if (check.conflicts.length > 0 && !force) {
+            return { success: false, conflicts: check.conflicts, error: 'Another party has that table at this time' };
+        }
+
+        const { data: updated, error } = await supabase
+            .from('bookings')
+            .update({ table_ids: tableIds })
+            .eq('id', booking.id)
+            .select()
+            .single();
+
+        if (error || !updated) {
+            console.error('Database error:', error);
+            return { success: false, error: 'Failed to assign table' };
+        }
+
+        await auditService.recordBookingEvent('updated', booking, updated, actor);
+        publishFloorChange(restaurant.id);
+
+        return { success: true, booking: updated, conflicts: check.conflicts };
+    }
+
+    /**
+     * Seat a party, at the tables the host picked if any. The tables are checked first but only
+     * written once the booking is seated, so a refused seating leaves the booking as it was.
+     */
+    async seatParty(restaurant: any, booking: any, tableIds: string[] | undefined, actor: BookingActor, force: boolean = false): Promise<SeatingResult> {
+        if (tableIds?.length) {
+            if (!canTransition(booking.status, 'seated')) {
+                return { success: false, error: `Cannot change a ${booking.status} booking to seated` };
+            }
+            const check = await this.checkTables(restaurant, booking, tableIds);
+            if (check.error) return { success: false, error: check.error };
+            if (check.conflicts.length > 0 && !force) {
+                return { success: false, conflicts: check.conflicts, error: 'Another party has that table at this time' };
+            }
+        }
+
+        const seated = await bookingService.transitionBooking(restaurant, booking, 'seated', actor);
+        if (!seated.success) return { success: false, error: seated.error };
+        if (!tableIds?.length) return { success: true, booking: seated.booking };
+
+        return this.assignTables(restaurant, seated.booking, tableIds, actor, true);
+    }
+
+    /**
+     * Note that a party has arrived and is waiting to be seated
+     */
+    async markArrived(restaurant: any, booking: any, actor: BookingActor): Promise<SeatingResult> {
+        if (booking.status !== 'confirmed') {
+            return { success: false, error: `A ${booking.status} booking can't be marked as arrived` };
+        }
+
+        return this.updateStage(restaurant, booking, { service_stage: 'arrived', arrived_at: new Date().toISOString() }, actor);
+    }
+
+    /**
+     * Move a seated party on to mains or to having paid
+     */
+    async markStage(restaurant: any, booking: any, stage: 'mains' | 'paid', actor: BookingActor): Promise<SeatingResult> {
+        if (booking.status !== 'seated') {
+            return { success: false, error: `Only a seated party can be marked as ${stage === 'mains' ? 'on mains' : 'paid'}` };
+        }
+
+        return this.updateStage(restaurant, booking, { service_stage: stage, [`${stage}_at`]: new Date().toISOString() }, actor);
+    }
+
+    /**
+     * Seat a party that walked in without a booking, at the given tables or the best free ones
+     */
+    async createWalkIn(restaurant: any, input: WalkInInput, actor: BookingActor): Promise<SeatingResult> {
+        const now = toZonedDateTime(new Date(), restaurantTimeZone(restaurant));
+        let tableIds = input.tableIds;
+
+        if (tableIds?.length) {
+            const check = await this.checkTables(restaurant, { booking_date: now.date, booking_time: now.time, party_size: input.partySize }, tableIds);
+            if (check.error) return { success: false, error: check.error };
+            if (check.conflicts.length > 0) {
+                return { success: false, conflicts: check.conflicts, error: 'Another party has that table at this time' };
+            }
+        } else {
+            const availability = await availabilityService.checkAvailability(restaurant, {
+                date: now.date,
+                time: now.time,
+                partySize: input.partySize,
+                area: input.area,
+                ignoreServiceRules: true
+            });
+            if (!availability.available) {
+                return { success: false, error: availability.message || 'No table free for this party' };
+            }
+            tableIds = availability.tableIds;
+        }
+
+        const created = await bookingService.createBooking(restaurant, {
+            guestName: input.guestName || 'Walk-in',
+            guestPhone: input.guestPhone,
+            date: now.date,
+            time: now.time,
+            partySize: input.partySize,
+            specialRequests: input.specialRequests,
+            tableIds
+        }, {
+            source: 'walk_in',
+            actor,
+            skipAvailabilityCheck: true,
+            skipPayment: true,
+            notifyGuest: false,
+            notifyRestaurant: false,
+            syncIntegrations: false
+        });
+
+        if (!created.success) {
+            return { success: false, error: created.error || 'Failed to create walk-in' };
+        }
+
+        const seated = await bookingService.transitionBooking(restaurant, created.booking, 'seated', actor);
+        return seated.success
+            ? { success: true, booking: seated.booking }
+            : { success: false, booking: created.booking, error: seated.error };
+    }
+
+    /**
+     * Every table's status at the current time, with its bookings for the rest of the day
+     */
+    async getFloor(restaurant: any, date?: string): Promise<FloorView> {
+        const now = toZonedDateTime(new Date(), restaurantTimeZone(restaurant));
+        const day = date || now.date;
+        // Other days have no live state, so show them as they stand at opening
+        const time = day === now.date ? now.time : '00:00';
+
+        const [{ tables }, { data: bookings }] = await Promise.all([
+            availabilityService.loadFloorPlan(restaurant.id),
+            supabase
+                .from('bookings')
+                .select(BOOKING_SUMMARY_FIELDS)
+                .eq('restaurant_id', restaurant.id)
+                .eq('booking_date', day)
+                .in('status', ACTIVE_BOOKING_STATUSES)
+                .order('booking_time', { ascending: true })
+        ]);
+
+        const active = (bookings || []).filter(b => holdsTable(b)).map(b => ({
+            ...b,
+            duration_minutes: b.duration_minutes || availabilityService.getTurnTime(restaurant, b.party_size)
+        }));
+        const nowMinutes = timeToMinutes(time);
+
+        const floor = [...tables]
+            .sort((a, b) => (a.area || '').localeCompare(b.area || '') || a.name.localeCompare(b.name, undefined, { numeric: true }))
+            .map(table => {
+                const atTable = active.filter(b => Array.isArray(b.table_ids) && b.table_ids.includes(table.id));
+                const occupying = atTable.find(b => b.status === 'seated')
+                    || atTable.find(b => b.service_stage === 'arrived');
+                const next = atTable.find(b => b !== occupying && b.status !== 'seated' && timeToMinutes(b.booking_time) + b.duration_minutes > nowMinutes);
+
+                let status: TableStatus = 'free';
+                let current = occupying;
+                if (occupying) {
+                    status = occupying.service_stage || 'seated';
+                } else if (next && timeToMinutes(next.booking_time) - nowMinutes <= RESERVED_WINDOW_MINUTES) {
+                    status = 'reserved';
+                    current = next;
+                }
+
+                return {
+                    table,
+                    status,
+                    current,
+                    upcoming: atTable.filter(b => b !== current && b.status !== 'seated' && timeToMinutes(b.booking_time) >= nowMinutes)
+                };
+            });
+
+        return {
+            date: day,
+            time,
+            tables: floor,
+            unassigned: active.filter(b => !Array.isArray(b.table_ids) || b.table_ids.length === 0)
+        };
+    }
+
+    /**
+     * Actual seated-to-freed minutes by party size over recent days, next to the configured turn times
+     */
+    async getTurnTimeStats(restaurant: any, days: number = 30): Promise<TurnTimeStat[]> {
+        const today = toZonedDateTime(new Date(), restaurantTimeZone(restaurant)).date;
+
+        const { data: bookings, error } = await supabase
+            .from('bookings')
+            .select('party_size, actual_turn_minutes')
+            .eq('restaurant_id', restaurant.id)
+            .eq('status', 'completed')
+            .not('actual_turn_minutes', 'is', null)
+            .gte('booking_date', addDays(today, -days))
+            .lte('booking_date', today);
+
+        if (error) throw error;
+
+        const bySize = new Map<number, number[]>();
+        for (const b of bookings || []) {
+            bySize.set(b.party_size, [...(bySize.get(b.party_size) || []), b.actual_turn_minutes]);
+        }
+
+        return [...bySize.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([partySize, minutes]) => {
+                const sorted = [...minutes].sort((a, b) => a - b);
+                const middle = Math.floor(sorted.length / 2);
+                return {
+                    partySize,
+                    parties: sorted.length,
+                    averageMinutes: Math.round(sorted.reduce((sum, m) => sum + m, 0) / sorted.length),
+                    medianMinutes: sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2),
+                    configuredMinutes: availabilityService.getTurnTime(restaurant, partySize)
+                };
+            });
+    }
+
+    private async updateStage(restaurant: any, booking: any, changes: any, actor: BookingActor): Promise<SeatingResult> {
+        const { data: updated, error } = await supabase
+            .from('bookings')
+            .update(changes)
+            .eq('id', booking.id)
+            .eq('status', booking.status)
+            .select()
+            .single();
+
+        if (error || !updated) {
+            console.error('Database error:', error);
+            return { success: false, error: 'Failed to update booking' };
+        }
+
+        await auditService.recordBookingEvent('status_changed', booking, updated, actor);
+        publishFloorChange(restaurant.id);
+
+        return { success: true, booking: updated };
+    }
+
+    /**
+     * Make sure tables exist and fit the party, and find bookings already holding them at that time.
+     * The booking only needs its date, time, party size and, if saved, its id and duration.
+     */
+    async checkTables(restaurant: any, booking: any, tableIds: string[]): Promise<{ conflicts: any[]; error?: string }> {
+        if (!Array.isArray(tableIds) || tableIds.length === 0) {
+            return { conflicts: [], error: 'Choose at least one table' };
+        }
+
+        const { data: tables } = await supabase
+            .from('tables')
+            .select('id, max_seats')
+            .eq('restaurant_id', restaurant.id)
+            .eq('is_active', true)
+            .in('id', tableIds);
+
+        if (!tables || tables.length !== new Set(tableIds).size) {
+            return { conflicts: [], error: 'Unknown or inactive table' };
+        }
+
+        const seats = tables.reduce((sum, t) => sum + (t.max_seats || 0), 0);
+        if (seats < booking.party_size) {
+            return { conflicts: [], error: `Those tables seat ${seats}, the party is ${booking.party_size}` };
+        }
+
+        const { data: others } = await supabase
+            .from('bookings')
+            .select(BOOKING_SUMMARY_FIELDS)
+            .eq('restaurant_id', restaurant.id)
+            .eq('booking_date', booking.booking_date)
+            .in('status', ACTIVE_BOOKING_STATUSES)
+            .overlaps('table_ids', tableIds);
+
+        const now = toZonedDateTime(new Date(), restaurantTimeZone(restaurant));
+        const start = timeToMinutes(booking.booking_time);
+        const end = start + (booking.duration_minutes || availabilityService.getTurnTime(restaurant, booking.party_size));
+
+        const conflicts = (others || []).filter(other => {
+            if (other.id === booking.id || !holdsTable(other)) return false;
+            const otherStart = timeToMinutes(other.booking_time);
+            let otherEnd = otherStart + (other.duration_minutes || availabilityService.getTurnTime(restaurant, other.party_size));
+            // A seated party holds the table until it is freed, even past its turn time
+            if (other.status === 'seated' && booking.booking_date === now.date) {
+                otherEnd = Math.max(otherEnd, timeToMinutes(now.time) + 1);
+            }
+            return otherStart < end && start < otherEnd;
+        });
+
+        return { conflicts };
+    }
+}
+
+export default new SeatingService();
@@ -1,4 +1,7 @@
 import axios from 'axios';
+import hoursService from './hours.service';
+import cancellationPolicyService from './cancellationPolicy.service';
+import { restaurantTimeZone } from '../utils/datetime';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY!;
 const VAPI_BASE_URL = 'https://api.vapi.ai';
@@ -151,6 +154,7 @@ export class VapiService {
 - You are strictly an INTERFACE for the restaurant's booking system. Reach out to the backend for EVERYTHING.
 - **NEVER Hallucinate:** If a customer doesn't specify a time, date, or party size, you MUST ask for it. NEVER assume "tonight" or "8:25 PM" unless they said it.
 - **NEVER Invent Numbers:** Confirmation numbers MUST only come from the 'create_booking' tool.
+- **Confirmation Codes:** Read codes back letter by letter exactly as given in 'confirmationNumberSpoken' (e.g. "K as in Kilo, 7, M as in Mike"). When a caller gives you a code, pass it to the tool as they said it; spaces and phonetic words are fine.
 - **Tool-First:** Call 'check_availability' the VERY SECOND you have a Date, Time, and Party Size. Do not wait for a Name or Email to check if a table is free.
 
 **CONVERSATIONAL FLOW:**
@@ -160,8 +164,11 @@ export class VapiService {
    - While the tool runs, the system will play a waiting message. Stay silent.
 4. **Handle Result:** 
    - If Available: "Good news, we have space! To finalize the booking, I just need your name and email."
-   - If Unavailable: Suggest an alternative based on the response.
+   - If Unavailable: Explain the reason from the response (e.g. we are closed that day, outside service hours, or we only take bookings up to 30 days ahead) and offer the suggested times or, if there are none, the same time on the alternative days from the response. If none of the alternatives suit the caller, offer to add them to the waitlist with 'add_to_waitlist'.
+   - If the party is too large: Don't turn them away. Ask about the occasion, budget and menu preferences, then call 'request_large_party' so the restaurant can review it.
 5. **Finalize:** Summarize the details and call 'create_booking'. 
+   - If the response says a deposit or card guarantee is needed, tell the caller a payment link has been sent to their email and the table is held until it is completed.
+6. **Cancellations:** Call 'cancel_booking' with the confirmation number. If the response asks for confirmation, read the consequence to the caller word for word and only call 'cancel_booking' again with confirmed set to true once they agree.
 
 **GUIDELINES:**
 - **Caller ID:** You already have the phone number. Say: "I'll put this under the number you're calling from."
@@ -172,8 +179,10 @@ export class VapiService {
 - Name: ${restaurantData.name}
 - Cuisine: ${restaurantData.cuisine_type || 'Various'}
 - Address: ${restaurantData.address || 'Check website'}
-- Hours: ${restaurantData.opening_hours || 'Check website'}
+- Hours: ${hoursService.formatWeeklyHours(restaurantData.opening_hours) || 'Check website'}
 - Max Party Size: ${restaurantData.max_party_size || 10} guests
+- Cancellation Policy: ${cancellationPolicyService.describePolicy(restaurantData) || 'Free cancellation'}
+- Timezone: ${restaurantTimeZone(restaurantData)}. It is now {{"now" | date: "%A, %B %d, %Y, %I:%M %p", "${restaurantTimeZone(restaurantData)}"}} at the restaurant. Work out "today", "tomorrow" or "this Friday" from this, never from your own clock.
 
 Note: If a tool returns an error, apologize and say you're having technical trouble.`;
     }
@@ -195,7 +204,8 @@ Note: If a tool returns an error, apologize and say you're having technical trou
                         properties: {
                             date: { type: 'string', description: 'Date in YYYY-MM-DD format' },
                             time: { type: 'string', description: 'Time in HH:MM format (24-hour)' },
-                            partySize: { type: 'number', description: 'Number of guests' }
+                            partySize: { type: 'number', description: 'Number of guests' },
+                            area: { type: 'string', description: 'Optional seating area the guest asked for, e.g. terrace, bar or main room' }
                         },
                         required: ['date', 'time', 'partySize']
                     }
@@ -215,7 +225,8 @@ Note: If a tool returns an error, apologize and say you're having technical trou
                             date: { type: 'string', description: 'Date YYYY-MM-DD' },
                             time: { type: 'string', description: 'Time HH:MM' },
                             partySize: { type: 'number', description: 'Guests' },
-                            specialRequests: { type: 'string', description: 'Any requests' }
+                            specialRequests: { type: 'string', description: 'Any requests' },
+                            area: { type: 'string', description: 'Optional seating area, e.g. terrace, bar or main room' }
                         },
                         required: ['guestName', 'guestPhone', 'date', 'time', 'partySize']
                     }
@@ -246,12 +257,56 @@ Note: If a tool returns an error, apologize and say you're having technical trou
                     parameters: {
                         type: 'object',
                         properties: {
-                            confirmationNumber: { type: 'string', description: 'Booking confirmation number' }
+                            confirmationNumber: { type: 'string', description: 'Booking confirmation number' },
+                            confirmed: { type: 'boolean', description: 'True only once the caller has heard and accepted the cancellation consequence' }
                         },
                         required: ['confirmationNumber']
                     }
                 }
             },
+            {
+                type: 'function',
+                function: {
+                    name: 'add_to_waitlist',
+                    description: 'Add the caller to the waitlist when no table is available',
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            guestName: { type: 'string', description: 'Full name' },
+                            guestEmail: { type: 'string', description: 'Email address, used to send an offer if a table frees up' },
+                            guestPhone: { type: 'string', description: 'Phone number' },
+                            date: { type: 'string', description: 'Date YYYY-MM-DD' },
+                            timeFrom: { type: 'string', description: 'Earliest acceptable time HH:MM' },
+                            timeTo: { type: 'string', description: 'Latest acceptable time HH:MM' },
+                            partySize: { type: 'number', description: 'Guests' }
+                        },
+                        required: ['guestName', 'date', 'timeFrom', 'partySize']
+                    }
+                }
+            },
+            {
+                type: 'function',
+                function: {
+                    name: 'request_large_party',
+                    description: 'Send a large-party or private dining request to the restaurant for approval',
+                    parameters: {
+                        type: 'object',
+                        properties: {
+                            guestName: { type: 'string', description: 'Full name' },
+                            guestEmail: { type: 'string', description: 'Email address for the outcome' },
+                            guestPhone: { type: 'string', description: 'Phone number' },
+                            date: { type: 'string', description: 'Date YYYY-MM-DD' },
+                            time: { type: 'string', description: 'Time HH:MM' },
+                            partySize: { type: 'number', description: 'Guests' },
+                            occasion: { type: 'string', description: 'Occasion, e.g. birthday, corporate dinner' },
+                            budget: { type: 'string', description: 'Budget per person or in total' },
+                            menuPreferences: { type: 'string', description: 'Set menu, dietary needs or other preferences' },
+                            notes: { type: 'string', description: 'Anything else the restaurant should know' }
+                        },
+                        required: ['guestName', 'guestPhone', 'date', 'time', 'partySize']
+                    }
+                }
+            },
             {
                 type: 'function',
                 function: {
@@ -0,0 +1,160 @@
+import { v4 as uuidv4 } from 'uuid';
+import supabase from '../config/supabase';
+import emailService from './email.service';
+import availabilityService from './availability.service';
+import { normalizeTime, timeToMinutes } from '../utils/datetime';
+
+const OFFER_EXPIRY_MINUTES = Number(process.env.WAITLIST_OFFER_MINUTES) || 30;
+const MAX_OFFERS_PER_SLOT = 3;
+
+export interface WaitlistEntryInput {
+    guestName: string;
+    guestEmail?: string;
+    guestPhone?: string;
+    date: string;
+    timeFrom: string;
+    timeTo: string;
+    partySize: number;
+    notes?: string;
+    source: string;
+}
+
+export class WaitlistService {
+    /**
+     * Add a guest to the waitlist for a date and time window
+     */
+    async addEntry(restaurantId: string, input: WaitlistEntryInput): Promise<any> {
+        const { data: entry, error } = await supabase
+            .from('waitlist_entries')
+            .insert({
+                restaurant_id: restaurantId,
+                guest_name: input.guestName,
+                guest_email: input.guestEmail,
+                guest_phone: input.guestPhone,
+                booking_date: input.date,
+                window_start: normalizeTime(input.timeFrom),
+                window_end: normalizeTime(input.timeTo),
+                party_size: input.partySize,
+                notes: input.notes,
+                source: input.source,
+                status: 'waiting'
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error adding waitlist entry:', error);
+            throw error;
+        }
+
+        return entry;
+    }
+
+    /**
+     * Email waiting guests who can now be seated after a booking was cancelled
+     */
+    async offerFreedSlot(restaurant: any, cancelledBooking: any): Promise<number> {
+        const nowIso = new Date().toISOString();
+        const { data: entries } = await supabase
+            .from('waitlist_entries')
+            .select('*')
+            .eq('restaurant_id', restaurant.id)
+            .eq('booking_date', cancelledBooking.booking_date)
+            .or(`status.eq.waiting,and(status.eq.offered,offer_expires_at.lt.${nowIso})`)
+            .order('created_at', { ascending: true });
+
+        const freedMinutes = timeToMinutes(cancelledBooking.booking_time);
+        let offersSent = 0;
+
+        for (const entry of entries || []) {
+            if (offersSent >= MAX_OFFERS_PER_SLOT) break;
+            if (!entry.guest_email) continue; // Staff follow up from the dashboard
+
+            const times = await availabilityService.findAvailableTimes(restaurant, entry.booking_date, entry.party_size, {
+                from: entry.window_start,
+                to: entry.window_end
+            });
+            if (times.length === 0) continue;
+
+            // Offer the time closest to the one that was freed
+            const offeredTime = times.reduce((best, t) =>
+                Math.abs(timeToMinutes(t) - freedMinutes) < Math.abs(timeToMinutes(best) - freedMinutes) ? t : best
+            );
+
+            const token = uuidv4();
+            const expiresAt = new Date(Date.now() + OFFER_EXPIRY_MINUTES * 60000);
+
+            const { error } = await supabase
+                .from('waitlist_entries')
+                .update({
+                    status: 'offered',
+                    offered_time: offeredTime,
+                    offer_token: token,
+                    offer_expires_at: expiresAt.toISOString()
+                })
+                .eq('id', entry.id);
+
+            if (error) {
+                console.error('Error recording waitlist offer:', error);
+                continue;
+            }
+
+            try {
+                await emailService.sendWaitlistOffer({
+                    to: entry.guest_email,
+                    restaurantName: restaurant.name || 'Restaurant',
+                    guestName: entry.guest_name,
+                    date: entry.booking_date,
+                    time: offeredTime,
+                    partySize: entry.party_size,
+                    claimUrl: `${process.env.FRONTEND_URL}/waitlist/claim?token=${token}`,
+                    expiresInMinutes: OFFER_EXPIRY_MINUTES
+                });
+                offersSent++;
+            } catch (emailError) {
+                console.error('Error sending waitlist offer:', emailError);
+            }
+        }
+
+        if (offersSent > 0) {
+            console.log(`📨 Sent ${offersSent} waitlist offer(s) for ${cancelledBooking.booking_date}`);
+        }
+
+        return offersSent;
+    }
+
+    /**
+     * Find an entry by its offer token
+     */
+    async findByOfferToken(token: string): Promise<any | null> {
+        const { data: entry } = await supabase
+            .from('waitlist_entries')
+            .select('*')
+            .eq('offer_token', token)
+            .single();
+
+        return entry || null;
+    }
+
+    /**
+     * Mark an entry as booked once the guest claims their offer
+     */
+    async markBooked(entryId: string, bookingId: string): Promise<void> {
+        await supabase
+            .from('waitlist_entries')
+            .update({ status: 'booked', booking_id: bookingId, offer_token: null })
+            .eq('id', entryId);
+    }
+
+    /**
+     * Put an entry back in the queue when an offer can no longer be honoured
+     */
+    async releaseOffer(entryId: string): Promise<void> {
+        await supabase
+            .from('waitlist_entries')
+            .update({ status: 'waiting', offered_time: null, offer_token: null, offer_expires_at: null })
+            .eq('id', entryId);
+    }
+}
+
+export default new WaitlistService();
@@ -0,0 +1,55 @@
+import { canTransition, holdsTable } from './bookingStatus';
+
+describe('canTransition', () => {
+    it('allows the normal booking lifecycle', () => {
+        expect(canTransition('pending', 'confirmed')).toBe(true);
+        expect(canTransition('confirmed', 'seated')).toBe(true);
+        expect(canTransition('seated', 'completed')).toBe(true);
+    });
+
+    it('allows cancelling before the party is seated', () => {
+        expect(canTransition('pending', 'cancelled')).toBe(true);
+        expect(canTransition('confirmed', 'cancelled')).toBe(true);
+        expect(canTransition('seated', 'cancelled')).toBe(false);
+    });
+
+    it('only marks confirmed bookings as no-shows', () => {
+        expect(canTransition('confirmed', 'no_show')).toBe(true);
+        expect(canTransition('pending', 'no_show')).toBe(false);
+        expect(canTransition('seated', 'no_show')).toBe(false);
+    });
+
+    it('treats completed, no-show and cancelled as final', () => {
+        for (const from of ['completed', 'no_show', 'cancelled']) {
+            expect(canTransition(from, 'confirmed')).toBe(false);
+            expect(canTransition(from, 'seated')).toBe(false);
+        }
+    });
+
+    it('rejects unknown statuses', () => {
+        expect(canTransition('archived', 'confirmed')).toBe(false);
+    });
+
+    it('lets an unpaid hold be confirmed or dropped, but not seated', () => {
+        expect(canTransition('pending_payment', 'confirmed')).toBe(true);
+        expect(canTransition('pending_payment', 'cancelled')).toBe(true);
+        expect(canTransition('pending_payment', 'seated')).toBe(false);
+    });
+});
+
+describe('holdsTable', () => {
+    const now = new Date('2026-10-19T18:00:00Z');
+
+    it('holds the table for active bookings only', () => {
+        expect(holdsTable({ status: 'confirmed' }, now)).toBe(true);
+        expect(holdsTable({ status: 'seated' }, now)).toBe(true);
+        expect(holdsTable({ status: 'cancelled' }, now)).toBe(false);
+        expect(holdsTable({ status: 'completed' }, now)).toBe(false);
+    });
+
+    it('releases an unpaid hold once it expires', () => {
+        expect(holdsTable({ status: 'pending_payment', payment_expires_at: '2026-10-19T18:30:00Z' }, now)).toBe(true);
+        expect(holdsTable({ status: 'pending_payment', payment_expires_at: '2026-10-19T17:30:00Z' }, now)).toBe(false);
+        expect(holdsTable({ status: 'pending_payment' }, now)).toBe(true);
+    });
+});
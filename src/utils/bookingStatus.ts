@@ -0,0 +1,48 @@
+export type BookingStatus = 'pending' | 'pending_payment' | 'confirmed' | 'seated' | 'completed' | 'no_show' | 'cancelled';
+
+export const BOOKING_STATUSES: BookingStatus[] = ['pending', 'pending_payment', 'confirmed', 'seated', 'completed', 'no_show', 'cancelled'];
+
+/** Allowed moves out of each status; completed, no-show and cancelled are final */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+    pending: ['confirmed', 'cancelled'],
+    pending_payment: ['confirmed', 'cancelled'],
+    confirmed: ['seated', 'no_show', 'cancelled'],
+    seated: ['completed'],
+    completed: [],
+    no_show: [],
+    cancelled: []
+};
+
+/** Column stamped when a booking enters each status */
+export const STATUS_TIMESTAMP_COLUMNS: Record<BookingStatus, string> = {
+    pending: 'created_at',
+    pending_payment: 'created_at',
+    confirmed: 'confirmed_at',
+    seated: 'seated_at',
+    completed: 'completed_at',
+    no_show: 'no_show_at',
+    cancelled: 'cancelled_at'
+};
+
+/** Statuses that still hold a table and count towards availability */
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ['pending', 'pending_payment', 'confirmed', 'seated'];
+
+/**
+ * Whether a booking still holds its table; an unpaid deposit hold lapses at payment_expires_at
+ */
+export function holdsTable(booking: any, now: Date = new Date()): boolean {
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) return false;
+    if (booking.status !== 'pending_payment' || !booking.payment_expires_at) return true;
+    return new Date(booking.payment_expires_at) > now;
+}
+
+/** Statuses in which the date, time and party size may still change */
+export const EDITABLE_BOOKING_STATUSES: BookingStatus[] = ['pending', 'confirmed'];
+
+/**
+ * Whether a booking may move from one status to another
+ */
+export function canTransition(from: string, to: BookingStatus): boolean {
+    const allowed = BOOKING_TRANSITIONS[from as BookingStatus];
+    return !!allowed && allowed.includes(to);
+}
@@ -0,0 +1,69 @@
+import {
+    CODE_ALPHABET,
+    CODE_LENGTH,
+    confirmationCodeCandidates,
+    formatConfirmationCodeForSpeech,
+    generateConfirmationCode,
+    normalizeConfirmationCode
+} from './confirmationCode';
+
+describe('generateConfirmationCode', () => {
+    it('uses only unambiguous characters', () => {
+        for (let i = 0; i < 50; i++) {
+            const code = generateConfirmationCode();
+            expect(code).toHaveLength(CODE_LENGTH);
+            expect([...code].every(char => CODE_ALPHABET.includes(char))).toBe(true);
+        }
+    });
+
+    it('honours a custom length', () => {
+        expect(generateConfirmationCode(8)).toHaveLength(8);
+    });
+});
+
+describe('normalizeConfirmationCode', () => {
+    it('strips spacing and punctuation', () => {
+        expect(normalizeConfirmationCode('k7m 4-px')).toBe('K7M4PX');
+    });
+
+    it('maps phonetic and digit words back to characters', () => {
+        expect(normalizeConfirmationCode('Kilo seven Mike four Papa X-ray')).toBe('K7M4PX');
+    });
+
+    it('drops "as in" and "for" spellings', () => {
+        expect(normalizeConfirmationCode('K as in Kilo, 7, M for Mike')).toBe('K7M');
+    });
+
+    it('handles empty input', () => {
+        expect(normalizeConfirmationCode('')).toBe('');
+    });
+});
+
+describe('formatConfirmationCodeForSpeech', () => {
+    it('spells letters phonetically and reads digits as-is', () => {
+        expect(formatConfirmationCodeForSpeech('k7')).toBe('K as in Kilo, 7');
+    });
+});
+
+describe('confirmationCodeCandidates', () => {
+    it('includes the raw and normalised forms', () => {
+        expect(confirmationCodeCandidates(' k7m4px ')).toEqual(expect.arrayContaining(['k7m4px', 'K7M4PX']));
+    });
+
+    it('rebuilds legacy TN numbers', () => {
+        expect(confirmationCodeCandidates('tn 1700000000000 ab12cd')).toContain('TN-1700000000000-AB12CD');
+    });
+
+    it('rebuilds legacy TN numbers with short suffixes', () => {
+        expect(confirmationCodeCandidates('TN-1700000000000-A1')).toContain('TN-1700000000000-A1');
+        expect(confirmationCodeCandidates('TN1700000000000X')).toContain('TN-1700000000000-X');
+    });
+
+    it('rebuilds external EXT numbers', () => {
+        expect(confirmationCodeCandidates('ext 1700000000000')).toContain('EXT-1700000000000');
+    });
+
+    it('returns nothing for blank input', () => {
+        expect(confirmationCodeCandidates('  ')).toEqual([]);
+    });
+});
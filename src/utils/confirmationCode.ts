@@ -0,0 +1,83 @@
+import { randomInt } from 'crypto';
+
+/** Letters and digits that can't be confused when read out or typed: no 0/O or 1/I */
+export const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const CODE_LENGTH = 6;
+
+const PHONETIC: Record<string, string> = {
+    A: 'Alpha', B: 'Bravo', C: 'Charlie', D: 'Delta', E: 'Echo', F: 'Foxtrot', G: 'Golf', H: 'Hotel',
+    I: 'India', J: 'Juliett', K: 'Kilo', L: 'Lima', M: 'Mike', N: 'November', O: 'Oscar', P: 'Papa',
+    Q: 'Quebec', R: 'Romeo', S: 'Sierra', T: 'Tango', U: 'Uniform', V: 'Victor', W: 'Whiskey',
+    X: 'X-ray', Y: 'Yankee', Z: 'Zulu'
+};
+
+const DIGIT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+/** Spoken words speech-to-text may hand back instead of the character */
+const SPOKEN_CHARACTERS: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(PHONETIC).map(([char, word]) => [word.toLowerCase().replace('-', ''), char])),
+    ...Object.fromEntries(DIGIT_WORDS.map((word, digit) => [word, String(digit)])),
+    juliet: 'J',
+    alfa: 'A',
+    oh: 'O'
+};
+
+/**
+ * Random short code, e.g. "K7M4PX"
+ */
+export function generateConfirmationCode(length: number = CODE_LENGTH): string {
+    let code = '';
+    for (let i = 0; i < length; i++) {
+        code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+}
+
+/**
+ * Undo speech-to-text mangling: "k7m 4-px", "Kilo seven Mike four Papa X-ray" -> "K7M4PX"
+ */
+export function normalizeConfirmationCode(input: string): string {
+    const words = String(input || '')
+        .toLowerCase()
+        .replace(/\b(as in|for)\s+[a-z-]+/g, '') // "K as in Kilo" / "K for Kilo" keeps just the "K"
+        .split(/[\s,.;:]+/)
+        .filter(Boolean);
+
+    return words
+        .map(word => SPOKEN_CHARACTERS[word.replace(/-/g, '')] ?? word)
+        .join('')
+        .replace(/[^a-z0-9]/gi, '')
+        .toUpperCase();
+}
+
+/**
+ * Letter-by-letter read-out for the voice assistant, e.g. "K as in Kilo, 7, M as in Mike, ..."
+ */
+export function formatConfirmationCodeForSpeech(code: string): string {
+    return String(code)
+        .replace(/[^a-z0-9]/gi, '')
+        .toUpperCase()
+        .split('')
+        .map(char => (PHONETIC[char] ? `${char} as in ${PHONETIC[char]}` : char))
+        .join(', ');
+}
+
+/**
+ * Stored forms a spoken or typed code could correspond to, including older
+ * "TN-<timestamp>-<suffix>" and "EXT-<timestamp>" numbers
+ */
+export function confirmationCodeCandidates(input: string): string[] {
+    const trimmed = String(input || '').trim();
+    const normalized = normalizeConfirmationCode(trimmed);
+    const candidates = new Set<string>([trimmed, trimmed.toUpperCase(), normalized]);
+
+    // Legacy suffixes came from Math.random().toString(36).substr(2, 6), which can be shorter than 6
+    const legacy = normalized.match(/^TN(\d{13})([A-Z0-9]{1,6})$/);
+    if (legacy) candidates.add(`TN-${legacy[1]}-${legacy[2]}`);
+
+    const external = normalized.match(/^EXT(\d{13})$/);
+    if (external) candidates.add(`EXT-${external[1]}`);
+
+    return [...candidates].filter(Boolean);
+}
@@ -0,0 +1,59 @@
+import { escapeCsvFormula, parseCsv, parseCsvRecords, toCsvRow } from './csv';
+
+describe('parseCsv', () => {
+    it('handles quoted commas, doubled quotes and newlines inside quotes', () => {
+        expect(parseCsv('a,"b,c","say ""hi""","x\ny"\n')).toEqual([['a', 'b,c', 'say "hi"', 'x\ny']]);
+    });
+
+    it('strips a byte order mark and skips blank lines', () => {
+        expect(parseCsv('\ufeffa,b\r\n\r\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+});
+
+describe('parseCsvRecords', () => {
+    it('keys trimmed cells by header', () => {
+        expect(parseCsvRecords(' name , size\nJo , 4\nSam')).toEqual({
+            headers: ['name', 'size'],
+            records: [{ name: 'Jo', size: '4' }, { name: 'Sam', size: '' }]
+        });
+    });
+});
+
+describe('toCsvRow', () => {
+    it('joins plain cells and ends with CRLF', () => {
+        expect(toCsvRow(['a', 'b', 'c'])).toBe('a,b,c\r\n');
+    });
+
+    it('quotes cells with commas, quotes or newlines', () => {
+        expect(toCsvRow(['a,b', 'say "hi"', 'line\nbreak'])).toBe('"a,b","say ""hi""","line\nbreak"\r\n');
+    });
+
+    it('round-trips through parseCsv', () => {
+        const cells = ['Smith, Jo', 'no "nuts"', 'window\r\nseat', ''];
+        expect(parseCsv(toCsvRow(cells))).toEqual([cells]);
+    });
+});
+
+describe('escapeCsvFormula', () => {
+    it('prefixes cells a spreadsheet would run as a formula', () => {
+        for (const cell of ['=SUM(A1)', '+SUM(A1)', '-1+cmd|x', '@cmd', '\tx', '\rx', '-', '+ ']) {
+            expect(escapeCsvFormula(cell)).toBe(`'${cell}`);
+        }
+    });
+
+    it('leaves ordinary text alone', () => {
+        expect(escapeCsvFormula('Jo Smith')).toBe('Jo Smith');
+        expect(escapeCsvFormula('a=b')).toBe('a=b');
+        expect(escapeCsvFormula('')).toBe('');
+    });
+
+    it('leaves phone numbers and numbers alone', () => {
+        for (const cell of ['+15551234567', '+1 (555) 123-4567', '-1', '-12.5', '+44 7700 900123']) {
+            expect(escapeCsvFormula(cell)).toBe(cell);
+        }
+    });
+
+    it('is still quoted when it contains separators', () => {
+        expect(toCsvRow([escapeCsvFormula('=HYPERLINK("x")')])).toBe('"\'=HYPERLINK(""x"")"\r\n');
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, newlines inside quotes) into rows of cells
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Strip a UTF-8 byte order mark left by spreadsheet exports
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Ignore blank lines
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Format one CSV line (with trailing CRLF), quoting cells that contain commas, quotes or newlines
+ */
+export function toCsvRow(cells: string[]): string {
+    return cells
+        .map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+        .join(',') + '\r\n';
+}
+
+/**
+ * Stop spreadsheets treating text as a formula: cells starting with =, +, -, @, tab or CR get a leading quote.
+ * Phone numbers like "+1 555 123 4567" and numbers like "-5" can't call anything and are left as they are.
+ */
+export function escapeCsvFormula(cell: string): string {
+    if (/^[+-]?[\d\s().-]*\d[\d\s().-]*$/.test(cell)) return cell;
+    return /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+}
+
+/**
+ * Parse CSV with a header row into objects keyed by header
+ */
+export function parseCsvRecords(text: string): { headers: string[]; records: Record<string, string>[] } {
+    const [headerRow, ...rows] = parseCsv(text);
+    const headers = (headerRow || []).map(header => header.trim());
+
+    const records = rows.map(cells => {
+        const record: Record<string, string> = {};
+        headers.forEach((header, index) => {
+            record[header] = (cells[index] ?? '').trim();
+        });
+        return record;
+    });
+
+    return { headers, records };
+}
@@ -0,0 +1,28 @@
+import { isValidDate, isValidTime } from './datetime';
+
+describe('isValidDate', () => {
+    it('accepts real YYYY-MM-DD dates', () => {
+        expect(isValidDate('2025-06-01')).toBe(true);
+        expect(isValidDate('2024-02-29')).toBe(true);
+    });
+
+    it('rejects other formats and days that do not exist', () => {
+        for (const date of ['2025-02-30', '2025-13-01', '06/01/2025', '2025-6-1', 'tomorrow', '']) {
+            expect(isValidDate(date)).toBe(false);
+        }
+    });
+});
+
+describe('isValidTime', () => {
+    it('accepts 24h HH:MM', () => {
+        expect(isValidTime('00:00')).toBe(true);
+        expect(isValidTime('19:30')).toBe(true);
+        expect(isValidTime('23:59')).toBe(true);
+    });
+
+    it('rejects other formats and out of range times', () => {
+        for (const time of ['24:00', '19:60', '7:30', '7pm', 'ab:cd', '']) {
+            expect(isValidTime(time)).toBe(false);
+        }
+    });
+});
@@ -0,0 +1,156 @@
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+/**
+ * Normalize "7:30 PM", "19:30" or "19:30:00" to 24h HH:MM
+ */
+export function normalizeTime(timeStr?: string): string | undefined {
+    if (!timeStr) return timeStr;
+    // If already 24h HH:MM
+    if (/^\d{2}:\d{2}$/.test(timeStr)) return timeStr;
+
+    // Handle "HH:MM AM/PM"
+    const match = timeStr.match(/(\d{1,2}):(\d{2})\s*(AM|PM|am|pm)?/);
+    if (!match) return timeStr;
+    let [_, hh, mm, mer] = match;
+    let hour = parseInt(hh, 10);
+    if (mer) {
+        const upper = mer.toUpperCase();
+        if (upper === 'PM' && hour < 12) hour += 12;
+        if (upper === 'AM' && hour === 12) hour = 0;
+    }
+    const hh24 = hour.toString().padStart(2, '0');
+    return `${hh24}:${mm}`;
+}
+
+/**
+ * Normalize YYYY-MM-DD or MM/DD/YYYY (Postgres default DateStyle) to YYYY-MM-DD
+ */
+export function normalizeDate(dateStr?: string): string | undefined {
+    if (!dateStr) return dateStr;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return dateStr;
+
+    const match = dateStr.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{2,4})$/);
+    if (!match) return dateStr;
+    const [_, mm, dd, yy] = match;
+    const year = yy.length === 2 ? `20${yy}` : yy;
+    return `${year}-${mm.padStart(2, '0')}-${dd.padStart(2, '0')}`;
+}
+
+/**
+ * Convert HH:MM (or HH:MM:SS) to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+    const [hh, mm] = time.split(':').map(part => parseInt(part, 10));
+    return hh * 60 + (mm || 0);
+}
+
+/**
+ * Convert minutes since midnight back to HH:MM
+ */
+export function minutesToTime(minutes: number): string {
+    const wrapped = ((minutes % 1440) + 1440) % 1440;
+    const hh = Math.floor(wrapped / 60).toString().padStart(2, '0');
+    const mm = (wrapped % 60).toString().padStart(2, '0');
+    return `${hh}:${mm}`;
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * YYYY-MM-DD date a number of days after (or before) another
+ */
+export function addDays(date: string, days: number): string {
+    return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().split('T')[0];
+}
+
+/**
+ * Timezone a restaurant's dates and times are in, falling back to DEFAULT_TIMEZONE then UTC
+ */
+export function restaurantTimeZone(restaurant: any): string {
+    return restaurant?.timezone || process.env.DEFAULT_TIMEZONE || 'UTC';
+}
+
+/**
+ * Whether a string is a real calendar date written YYYY-MM-DD, e.g. not "2025-02-30"
+ */
+export function isValidDate(date?: string): boolean {
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+    const parsed = new Date(`${date}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+/**
+ * Whether a string is a 24h time written HH:MM, e.g. not "25:00" or "7pm"
+ */
+export function isValidTime(time?: string): boolean {
+    return !!time && /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+}
+
+/**
+ * Whether a string is an IANA timezone name the runtime understands, e.g. "Europe/London"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Date (YYYY-MM-DD) and time (HH:MM) of an instant as seen in a timezone
+ */
+export function toZonedDateTime(instant: Date, timeZone: string): { date: string; time: string } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+    }).formatToParts(instant);
+    const get = (type: string) => parts.find(part => part.type === type)!.value;
+
+    return {
+        date: `${get('year')}-${get('month')}-${get('day')}`,
+        time: `${get('hour')}:${get('minute')}`
+    };
+}
+
+/**
+ * Instant for a wall-clock date and time in a timezone, e.g. 2024-06-01 19:30 in Europe/Paris
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+    const wallClock = Date.parse(`${date}T${normalizeTime(time)!.slice(0, 5)}:00Z`);
+    const offsetAt = (instant: number) => {
+        const zoned = toZonedDateTime(new Date(instant), timeZone);
+        return Date.parse(`${zoned.date}T${zoned.time}:00Z`) - instant;
+    };
+
+    // Second pass picks up the right offset when the first guess lands across a DST change
+    const guess = wallClock - offsetAt(wallClock);
+    return new Date(wallClock - offsetAt(guess));
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a timezone
+ */
+export function todayIn(timeZone: string): string {
+    return toZonedDateTime(new Date(), timeZone).date;
+}
+
+/**
+ * Day of week for a YYYY-MM-DD date, independent of server timezone
+ */
+export function getWeekday(date: string): Weekday {
+    return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
@@ -0,0 +1,22 @@
+import { EventEmitter } from 'events';
+
+// In-process only: with several server instances, a host only hears about changes made on theirs
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+/**
+ * Tell open floor views that a restaurant's bookings or tables changed
+ */
+export function publishFloorChange(restaurantId: string): void {
+    emitter.emit(restaurantId);
+}
+
+/**
+ * Listen for floor changes at a restaurant, returns a function that stops listening
+ */
+export function subscribeFloorChanges(restaurantId: string, listener: () => void): () => void {
+    emitter.on(restaurantId, listener);
+    return () => {
+        emitter.off(restaurantId, listener);
+    };
+}
@@ -0,0 +1,23 @@
+import { Request } from 'express';
+
+/**
+ * Idempotency-Key header from a client, namespaced so it cannot collide with phone or email keys
+ */
+export function requestIdempotencyKey(req: Request): string | undefined {
+    const key = req.get('Idempotency-Key')?.trim();
+    return key ? `api:${key.slice(0, 200)}` : undefined;
+}
+
+/**
+ * Key for a VAPI tool call; VAPI resends the same tool call id when it retries a webhook
+ */
+export function toolCallIdempotencyKey(toolCallId?: string): string | undefined {
+    return toolCallId ? `vapi:${toolCallId}` : undefined;
+}
+
+/**
+ * Key for an inbound email from its Message-ID header
+ */
+export function emailIdempotencyKey(messageId?: string): string | undefined {
+    return messageId ? `email:${messageId}` : undefined;
+}
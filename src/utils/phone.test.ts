@@ -0,0 +1,43 @@
+import { nationalDigits, toE164 } from './phone';
+
+describe('toE164', () => {
+    const original = process.env.DEFAULT_PHONE_COUNTRY_CODE;
+    afterEach(() => {
+        if (original === undefined) delete process.env.DEFAULT_PHONE_COUNTRY_CODE;
+        else process.env.DEFAULT_PHONE_COUNTRY_CODE = original;
+    });
+
+    it('gives national and international forms of a number the same value', () => {
+        delete process.env.DEFAULT_PHONE_COUNTRY_CODE;
+        expect(toE164('+1 555 123 4567')).toBe('+15551234567');
+        expect(toE164('555 123 4567')).toBe('+15551234567');
+        expect(toE164('(555) 123-4567')).toBe('+15551234567');
+        expect(toE164('1-555-123-4567')).toBe('+15551234567');
+    });
+
+    it('drops the trunk 0 of national numbers in other countries', () => {
+        process.env.DEFAULT_PHONE_COUNTRY_CODE = '44';
+        expect(toE164('07700 900123')).toBe('+447700900123');
+        expect(toE164('+44 7700 900123')).toBe('+447700900123');
+        expect(toE164('0044 7700 900123')).toBe('+447700900123');
+    });
+
+    it('keeps numbers from other countries', () => {
+        delete process.env.DEFAULT_PHONE_COUNTRY_CODE;
+        expect(toE164('+44 7700 900123')).toBe('+447700900123');
+    });
+
+    it('rejects numbers that are too short or too long', () => {
+        expect(toE164('123')).toBeNull();
+        expect(toE164('+1234567890123456')).toBeNull();
+        expect(toE164('')).toBeNull();
+    });
+});
+
+describe('nationalDigits', () => {
+    it('strips the default calling code only', () => {
+        delete process.env.DEFAULT_PHONE_COUNTRY_CODE;
+        expect(nationalDigits('+15551234567')).toBe('5551234567');
+        expect(nationalDigits('+447700900123')).toBeNull();
+    });
+});
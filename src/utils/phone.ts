@@ -0,0 +1,46 @@
+/**
+ * Digits of a phone number, e.g. "+1 (555) 010-2030" -> "15550102030"
+ */
+export function phoneDigits(phone?: string | null): string {
+    return String(phone || '').replace(/\D/g, '');
+}
+
+/**
+ * Calling code for numbers written without one, e.g. "1" for the US and Canada or "44" for the UK
+ */
+export function defaultCountryCode(): string {
+    return phoneDigits(process.env.DEFAULT_PHONE_COUNTRY_CODE) || '1';
+}
+
+/**
+ * E.164 form of a phone number, e.g. "(555) 010-2030" -> "+15550102030", or null if it can't be one.
+ * Numbers without a "+" or "00" prefix are national numbers in DEFAULT_PHONE_COUNTRY_CODE.
+ */
+export function toE164(phone?: string | null): string | null {
+    const text = String(phone || '').trim();
+    let digits = phoneDigits(text);
+
+    if (!text.startsWith('+')) {
+        if (digits.startsWith('00')) {
+            digits = digits.slice(2);
+        } else {
+            const code = defaultCountryCode();
+            // North American numbers are often written with their leading 1, others with a trunk 0
+            if (code === '1' && digits.length === 11 && digits.startsWith('1')) {
+                digits = digits.slice(1);
+            }
+            digits = code + digits.replace(/^0/, '');
+        }
+    }
+
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+}
+
+/**
+ * Digits of an E.164 number without the default calling code, or null if it belongs to another country
+ */
+export function nationalDigits(e164: string): string | null {
+    const digits = phoneDigits(e164);
+    const code = defaultCountryCode();
+    return digits.startsWith(code) ? digits.slice(code.length) : null;
+}
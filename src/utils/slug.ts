@@ -0,0 +1,19 @@
+/**
+ * Turn a restaurant name into a URL slug, e.g. "Café Luna & Bar" -> "cafe-luna-bar"
+ */
+export function slugify(name: string): string {
+    return name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60) || 'restaurant';
+}
+
+/**
+ * Lowercase letters, digits and single hyphens, 3 to 100 characters
+ */
+export function isValidSlug(slug: string): boolean {
+    return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug) && slug.length >= 3 && slug.length <= 100;
+}